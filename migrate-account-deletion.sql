@@ -0,0 +1,14 @@
+-- Migration to add self-service account deletion
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deletion_requested_at timestamp;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at timestamp;
+
+CREATE INDEX IF NOT EXISTS "idx_users_deletion_requested" ON "users" ("deletion_requested_at") WHERE deleted_at IS NULL;
+
+-- Placeholder that takes over the chat history of deleted accounts. It has no username,
+-- email or password, so it can neither be registered nor signed in to.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_system boolean DEFAULT false NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_users_system_placeholder" ON "users" ("is_system") WHERE is_system;
+
+INSERT INTO users (name, lastname, is_active, is_system)
+SELECT 'Deleted', 'User', false, true
+WHERE NOT EXISTS (SELECT 1 FROM users WHERE is_system);
@@ -0,0 +1,30 @@
+-- Migration: Add admin audit log
+-- Description: Records actor, action, target and before/after values for every privileged action
+
+CREATE TABLE IF NOT EXISTS "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" integer,
+	"action" varchar(50) NOT NULL,
+	"target_type" varchar(30) NOT NULL,
+	"target_id" text,
+	"before" text,
+	"after" text,
+	"ip_address" text,
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_audit_events_created" ON "audit_events" ("created_at");
+CREATE INDEX IF NOT EXISTS "idx_audit_events_actor" ON "audit_events" ("actor_id");
+CREATE INDEX IF NOT EXISTS "idx_audit_events_target" ON "audit_events" ("target_type", "target_id");
+
+-- Permission to read the log (admins hold it implicitly)
+INSERT INTO "permissions" ("name", "description") VALUES
+	('audit:read', 'View and export the admin audit log')
+ON CONFLICT ("name") DO NOTHING;
@@ -0,0 +1,5 @@
+-- Migration to add email verification support
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at timestamp;
+
+-- Emails that came from Google are already verified
+UPDATE users SET email_verified_at = now() WHERE google_id IS NOT NULL AND email IS NOT NULL AND email_verified_at IS NULL;
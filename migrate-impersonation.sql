@@ -0,0 +1,6 @@
+-- Migration: Add admin impersonation permission
+-- Description: Lets support staff act as a user through a short-lived, audited token (admins hold it implicitly)
+
+INSERT INTO "permissions" ("name", "description") VALUES
+	('users:impersonate', 'Sign in as a member for support, with every request audited')
+ON CONFLICT ("name") DO NOTHING;
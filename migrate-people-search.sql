@@ -0,0 +1,18 @@
+-- Migration: Add helpers for people search
+-- Description: Reads projects.technologies (JSON text) as an array without failing on malformed rows
+
+CREATE OR REPLACE FUNCTION technologies_array(value text) RETURNS jsonb
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+	parsed jsonb;
+BEGIN
+	parsed := value::jsonb;
+	IF jsonb_typeof(parsed) = 'array' THEN
+		RETURN parsed;
+	END IF;
+	RETURN '[]'::jsonb;
+EXCEPTION
+	WHEN others THEN
+		RETURN '[]'::jsonb;
+END;
+$$;
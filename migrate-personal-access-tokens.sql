@@ -0,0 +1,24 @@
+-- Migration: Add personal access tokens
+-- Description: Named, scoped, expiring API tokens for scripts (only the SHA-256 hash is stored)
+
+CREATE TABLE IF NOT EXISTS "personal_access_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"token_hash" text NOT NULL,
+	"token_prefix" varchar(20) NOT NULL,
+	"scopes" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"last_used_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "personal_access_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+
+DO $$ BEGIN
+ ALTER TABLE "personal_access_tokens" ADD CONSTRAINT "personal_access_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_personal_access_tokens_user" ON "personal_access_tokens" ("user_id");
@@ -0,0 +1,20 @@
+-- Migration: Profile privacy settings
+-- Description: Per-section visibility ('public', 'connections' or 'private'); email addresses are private by default
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS profile_visibility varchar(20) DEFAULT 'public' NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_visibility varchar(20) DEFAULT 'private' NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS skills_visibility varchar(20) DEFAULT 'public' NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS projects_visibility varchar(20) DEFAULT 'public' NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS roadmaps_visibility varchar(20) DEFAULT 'public' NOT NULL;
+
+DO $$ BEGIN
+ ALTER TABLE "users" ADD CONSTRAINT "users_visibility_check" CHECK (
+	profile_visibility IN ('public', 'connections', 'private') AND
+	email_visibility IN ('public', 'connections', 'private') AND
+	skills_visibility IN ('public', 'connections', 'private') AND
+	projects_visibility IN ('public', 'connections', 'private') AND
+	roadmaps_visibility IN ('public', 'connections', 'private')
+ );
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
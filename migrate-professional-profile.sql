@@ -0,0 +1,54 @@
+-- Migration: Extended professional profile
+-- Description: Headline, bio, location, links and open-to-work status on users, plus work experience and education entries
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS headline varchar(120);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS bio text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS location varchar(100);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone varchar(64);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS website_url text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS github_url text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS linkedin_url text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS x_url text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS open_to_work boolean DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS "work_experiences" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"title" varchar(120) NOT NULL,
+	"company" varchar(120) NOT NULL,
+	"location" varchar(100),
+	"employment_type" varchar(20),
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"description" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "educations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"school" varchar(120) NOT NULL,
+	"degree" varchar(120),
+	"field_of_study" varchar(120),
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"description" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+DO $$ BEGIN
+ ALTER TABLE "work_experiences" ADD CONSTRAINT "work_experiences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "educations" ADD CONSTRAINT "educations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_work_experiences_user" ON "work_experiences" ("user_id");
+CREATE INDEX IF NOT EXISTS "idx_educations_user" ON "educations" ("user_id");
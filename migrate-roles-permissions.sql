@@ -0,0 +1,80 @@
+-- Migration: Add roles and permissions
+-- Description: Replaces the free-form users.role string with seeded roles that grant named permissions
+
+CREATE TABLE IF NOT EXISTS "roles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(20) NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "roles_name_unique" UNIQUE("name")
+);
+
+CREATE TABLE IF NOT EXISTS "permissions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "permissions_name_unique" UNIQUE("name")
+);
+
+CREATE TABLE IF NOT EXISTS "role_permissions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"role_id" integer NOT NULL,
+	"permission_id" integer NOT NULL,
+	CONSTRAINT "role_permissions_role_permission_unique" UNIQUE("role_id", "permission_id")
+);
+
+DO $$ BEGIN
+ ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_permission_id_permissions_id_fk" FOREIGN KEY ("permission_id") REFERENCES "permissions"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Seed roles (safe to re-run)
+INSERT INTO "roles" ("name", "description") VALUES
+	('user', 'Regular member'),
+	('admin', 'Full access to the admin panel'),
+	('moderator', 'Reviews members and their content'),
+	('roadmap-author', 'Creates and maintains skill roadmaps'),
+	('instructor', 'Maintains roadmaps and follows learner progress')
+ON CONFLICT ("name") DO NOTHING;
+
+-- Seed permissions (safe to re-run)
+INSERT INTO "permissions" ("name", "description") VALUES
+	('users:read', 'View member accounts in the admin panel'),
+	('users:write', 'Change member roles and status, clear lockouts'),
+	('roadmaps:write', 'Create, edit and delete roadmaps and their tasks'),
+	('stats:read', 'View platform statistics')
+ON CONFLICT ("name") DO NOTHING;
+
+-- Seed role grants (admins implicitly hold every permission)
+INSERT INTO "role_permissions" ("role_id", "permission_id")
+SELECT r.id, p.id
+FROM "roles" r
+JOIN "permissions" p ON (r.name, p.name) IN (
+	('admin', 'users:read'),
+	('admin', 'users:write'),
+	('admin', 'roadmaps:write'),
+	('admin', 'stats:read'),
+	('moderator', 'users:read'),
+	('moderator', 'stats:read'),
+	('roadmap-author', 'roadmaps:write'),
+	('instructor', 'roadmaps:write'),
+	('instructor', 'stats:read')
+)
+ON CONFLICT ("role_id", "permission_id") DO NOTHING;
+
+-- Any unknown role falls back to a regular member before the foreign key is added
+UPDATE users SET role = 'user' WHERE role IS NULL OR role NOT IN (SELECT name FROM roles);
+
+DO $$ BEGIN
+ ALTER TABLE "users" ADD CONSTRAINT "users_role_roles_name_fk" FOREIGN KEY ("role") REFERENCES "roles"("name") ON DELETE no action ON UPDATE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
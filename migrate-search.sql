@@ -0,0 +1,30 @@
+-- Migration: Full-text search
+-- Description: Generated tsvector columns with GIN indexes for users, projects and skills.
+-- The columns are not mapped in src/db/schema.ts so plain selects do not return them.
+
+-- Names always match; headline and bio only for public profiles so hidden profiles do not leak through search
+ALTER TABLE users ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+	setweight(to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(lastname, '') || ' ' || coalesce(username, '')), 'A') ||
+	CASE WHEN profile_visibility = 'public' THEN
+		setweight(to_tsvector('simple', coalesce(headline, '')), 'B') ||
+		setweight(to_tsvector('simple', coalesce(bio, '')), 'C')
+	ELSE ''::tsvector END
+) STORED;
+
+-- technologies is a JSON string array; strip the JSON punctuation before indexing
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+	setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+	setweight(to_tsvector('simple', translate(coalesce(technologies, ''), '[]",', '    ')), 'A') ||
+	setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+	setweight(to_tsvector('simple', coalesce(content, '')), 'C')
+) STORED;
+
+ALTER TABLE skills ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+	setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+	setweight(to_tsvector('simple', coalesce(category, '')), 'B') ||
+	setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS "idx_users_search" ON "users" USING gin ("search_vector");
+CREATE INDEX IF NOT EXISTS "idx_projects_search" ON "projects" USING gin ("search_vector");
+CREATE INDEX IF NOT EXISTS "idx_skills_search" ON "skills" USING gin ("search_vector");
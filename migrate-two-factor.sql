@@ -0,0 +1,4 @@
+-- Migration to add TOTP two-factor authentication
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled_at timestamp;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_recovery_codes text;
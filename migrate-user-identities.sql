@@ -0,0 +1,28 @@
+-- Migration: Add user identities for account linking
+-- Description: Lets one user sign in with a password and one or more OAuth identities
+
+CREATE TABLE IF NOT EXISTS "user_identities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"provider" varchar(20) NOT NULL,
+	"provider_user_id" text NOT NULL,
+	"email" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "user_identities_provider_user_unique" UNIQUE("provider", "provider_user_id")
+);
+
+DO $$ BEGIN
+ ALTER TABLE "user_identities" ADD CONSTRAINT "user_identities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_user_identities_user" ON "user_identities" ("user_id");
+
+-- Unlinked identities are kept (with unlinked_at set) so they are not re-linked by email
+ALTER TABLE "user_identities" ADD COLUMN IF NOT EXISTS "unlinked_at" timestamp;
+
+-- Backfill existing Google accounts
+INSERT INTO "user_identities" ("user_id", "provider", "provider_user_id", "email")
+SELECT id, 'google', google_id, email FROM users WHERE google_id IS NOT NULL
+ON CONFLICT ("provider", "provider_user_id") DO NOTHING;
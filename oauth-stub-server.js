@@ -0,0 +1,85 @@
+// Minimal OAuth provider stub for testing Google/GitHub login locally.
+//
+// Run `node oauth-stub-server.js` and start the backend with, for example:
+//   GOOGLE_CLIENT_ID=stub GOOGLE_CLIENT_SECRET=stub
+//   GOOGLE_AUTHORIZE_URL=http://localhost:4010/authorize
+//   GOOGLE_TOKEN_URL=http://localhost:4010/token
+//   GOOGLE_USERINFO_URL=http://localhost:4010/google/userinfo
+//   GITHUB_CLIENT_ID=stub GITHUB_CLIENT_SECRET=stub
+//   GITHUB_AUTHORIZE_URL=http://localhost:4010/authorize
+//   GITHUB_TOKEN_URL=http://localhost:4010/token
+//   GITHUB_API_URL=http://localhost:4010/github
+import { createServer } from 'http';
+import { createHash, randomBytes } from 'crypto';
+
+const PORT = Number(process.env.OAUTH_STUB_PORT) || 4010;
+const codes = new Map(); // code -> { codeChallenge, redirectUri }
+
+const googleUser = {
+  id: '100000000000000000001',
+  email: 'stub.user@example.com',
+  verified_email: true,
+  name: 'Stub User',
+  given_name: 'Stub',
+  family_name: 'User',
+  picture: 'https://example.com/avatar.png',
+};
+
+const githubUser = { id: 4242, login: 'stub-user', name: 'Stub User', avatar_url: 'https://example.com/avatar.png' };
+const githubEmails = [{ email: 'stub.user@example.com', primary: true, verified: true }];
+
+function json(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req) {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  // Immediately "approve" and redirect back with a code
+  if (url.pathname === '/authorize') {
+    const code = randomBytes(8).toString('hex');
+    codes.set(code, {
+      codeChallenge: url.searchParams.get('code_challenge'),
+      redirectUri: url.searchParams.get('redirect_uri'),
+    });
+    const redirect = new URL(url.searchParams.get('redirect_uri'));
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', url.searchParams.get('state'));
+    res.writeHead(302, { Location: redirect.toString() });
+    res.end();
+    return;
+  }
+
+  // Exchange the code, checking the PKCE verifier like a real provider would
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const form = await readForm(req);
+    const entry = codes.get(form.get('code'));
+    codes.delete(form.get('code'));
+
+    const challenge = createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+    if (!entry || entry.codeChallenge !== challenge || entry.redirectUri !== form.get('redirect_uri')) {
+      json(res, 400, { error: 'invalid_grant' });
+      return;
+    }
+
+    json(res, 200, { access_token: randomBytes(16).toString('hex'), token_type: 'bearer' });
+    return;
+  }
+
+  if (url.pathname === '/google/userinfo') return json(res, 200, googleUser);
+  if (url.pathname === '/github/user') return json(res, 200, githubUser);
+  if (url.pathname === '/github/user/emails') return json(res, 200, githubEmails);
+
+  json(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`🔐 OAuth stub server listening on http://localhost:${PORT}`);
+});
@@ -1,73 +0,0 @@
-import { google } from 'googleapis';
-import jwt from 'jsonwebtoken';
-
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
-const JWT_SECRET = process.env.JWT_SECRET || 'your-jwt-secret-key';
-const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
-
-if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
-  console.warn('Google OAuth credentials not found. Google authentication will be disabled.');
-}
-
-export const oauth2Client = new google.auth.OAuth2(
-  GOOGLE_CLIENT_ID,
-  GOOGLE_CLIENT_SECRET,
-  `${FRONTEND_URL}/auth/google/callback`
-);
-
-export function getGoogleAuthUrl(): string {
-  if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
-    throw new Error('Google OAuth not configured');
-  }
-  
-  const scopes = [
-    'https://www.googleapis.com/auth/userinfo.email',
-    'https://www.googleapis.com/auth/userinfo.profile'
-  ];
-
-  return oauth2Client.generateAuthUrl({
-    access_type: 'offline',
-    scope: scopes,
-    prompt: 'consent'
-  });
-}
-
-export async function getGoogleUserInfo(code: string) {
-  try {
-    const { tokens } = await oauth2Client.getToken(code);
-    oauth2Client.setCredentials(tokens);
-    
-    const oauth2 = google.oauth2({
-      auth: oauth2Client,
-      version: 'v2'
-    });
-    
-    const { data } = await oauth2.userinfo.get();
-    return data;
-  } catch (error) {
-    console.error('Error getting Google user info:', error);
-    throw new Error('Failed to get user information from Google');
-  }
-}
-
-export function generateJWT(user: any): string {
-  return jwt.sign(
-    {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      lastname: user.lastname
-    },
-    JWT_SECRET,
-    { expiresIn: '7d' }
-  );
-}
-
-export function verifyJWT(token: string) {
-  try {
-    return jwt.verify(token, JWT_SECRET);
-  } catch (error) {
-    return null;
-  }
-}
\ No newline at end of file
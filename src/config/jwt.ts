@@ -0,0 +1,80 @@
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-jwt-secret-key';
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+
+// Short-lived access token bound to a session (see services/sessions.ts)
+export function generateJWT(user: any, sessionId: string): string {
+  return jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      lastname: user.lastname,
+      role: user.role || 'user',
+      sid: sessionId
+    },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn'] }
+  );
+}
+
+export function verifyJWT(token: string) {
+  try {
+    return jwt.verify(token, JWT_SECRET);
+  } catch (error) {
+    return null;
+  }
+}
+
+// Signed link token proving ownership of an email address
+export function generateEmailVerificationToken(userId: number, email: string): string {
+  return jwt.sign(
+    { id: userId, email, purpose: 'email-verification' },
+    JWT_SECRET,
+    { expiresIn: '24h' }
+  );
+}
+
+export function verifyEmailVerificationToken(token: string): { id: number; email: string } | null {
+  const payload = verifyJWT(token);
+  if (!payload || typeof payload === 'string' || payload.purpose !== 'email-verification') {
+    return null;
+  }
+  return { id: payload.id, email: payload.email };
+}
+
+// Short-lived token proving the password step of a two-factor login succeeded
+export function generateTwoFactorChallengeToken(userId: number): string {
+  return jwt.sign(
+    { id: userId, purpose: '2fa-challenge' },
+    JWT_SECRET,
+    { expiresIn: '5m' }
+  );
+}
+
+export function verifyTwoFactorChallengeToken(token: string): { id: number } | null {
+  const payload = verifyJWT(token);
+  if (!payload || typeof payload === 'string' || payload.purpose !== '2fa-challenge') {
+    return null;
+  }
+  return { id: payload.id };
+}
+
+// Support token acting as `user` on behalf of an admin; never refreshable (see services/impersonation.ts)
+export function generateImpersonationToken(user: any, adminId: number, impersonationId: string, ttlSeconds: number): string {
+  return jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      lastname: user.lastname,
+      role: user.role || 'user',
+      sid: impersonationId,
+      impersonatedBy: adminId,
+      purpose: 'impersonation'
+    },
+    JWT_SECRET,
+    { expiresIn: ttlSeconds }
+  );
+}
@@ -0,0 +1,198 @@
+import 'dotenv/config';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Provider profile normalized to the fields we store on users
+export interface OAuthProfile {
+  providerUserId: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string;
+  lastName: string;
+  avatarUrl: string | null;
+}
+
+export interface OAuthProvider {
+  name: string;
+  displayName: string;
+  isConfigured(): boolean;
+  getAuthorizeUrl(state: string, codeChallenge: string): string;
+  exchangeCode(code: string, codeVerifier: string): Promise<string>;
+  fetchProfile(accessToken: string): Promise<OAuthProfile>;
+}
+
+interface ProviderConfig {
+  name: string;
+  displayName: string;
+  clientId?: string;
+  clientSecret?: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  extraAuthorizeParams?: Record<string, string>;
+  fetchProfile(accessToken: string): Promise<OAuthProfile>;
+}
+
+function getRedirectUri(providerName: string): string {
+  return `${FRONTEND_URL}/auth/${providerName}/callback`;
+}
+
+async function fetchJson(url: string, init: RequestInit, errorMessage: string): Promise<any> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    console.error(`${errorMessage}: ${response.status} ${await response.text()}`);
+    throw new Error(errorMessage);
+  }
+  return response.json();
+}
+
+// Authorization code flow with PKCE shared by every provider
+function createProvider(config: ProviderConfig): OAuthProvider {
+  return {
+    name: config.name,
+    displayName: config.displayName,
+
+    isConfigured() {
+      return Boolean(config.clientId && config.clientSecret);
+    },
+
+    getAuthorizeUrl(state, codeChallenge) {
+      if (!config.clientId || !config.clientSecret) {
+        throw new Error(`${config.name} OAuth not configured`);
+      }
+
+      const params = new URLSearchParams({
+        client_id: config.clientId!,
+        redirect_uri: getRedirectUri(config.name),
+        response_type: 'code',
+        scope: config.scopes.join(' '),
+        state,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+        ...config.extraAuthorizeParams,
+      });
+
+      return `${config.authorizeUrl}?${params.toString()}`;
+    },
+
+    async exchangeCode(code, codeVerifier) {
+      const data = await fetchJson(
+        config.tokenUrl,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Accept: 'application/json',
+          },
+          body: new URLSearchParams({
+            client_id: config.clientId!,
+            client_secret: config.clientSecret!,
+            code,
+            code_verifier: codeVerifier,
+            grant_type: 'authorization_code',
+            redirect_uri: getRedirectUri(config.name),
+          }),
+        },
+        `Failed to exchange ${config.name} authorization code`
+      );
+
+      if (!data.access_token) {
+        throw new Error(`No access token returned by ${config.name}`);
+      }
+
+      return data.access_token;
+    },
+
+    fetchProfile: config.fetchProfile,
+  };
+}
+
+// Google (endpoints can be overridden to point at a local stub server)
+const googleUserInfoUrl = process.env.GOOGLE_USERINFO_URL || 'https://www.googleapis.com/oauth2/v2/userinfo';
+
+const google = createProvider({
+  name: 'google',
+  displayName: 'Google',
+  clientId: process.env.GOOGLE_CLIENT_ID,
+  clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+  authorizeUrl: process.env.GOOGLE_AUTHORIZE_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+  tokenUrl: process.env.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+  scopes: [
+    'https://www.googleapis.com/auth/userinfo.email',
+    'https://www.googleapis.com/auth/userinfo.profile'
+  ],
+  extraAuthorizeParams: { access_type: 'offline', prompt: 'consent' },
+
+  async fetchProfile(accessToken) {
+    const data = await fetchJson(
+      googleUserInfoUrl,
+      { headers: { Authorization: `Bearer ${accessToken}` } },
+      'Failed to get user information from Google'
+    );
+
+    return {
+      providerUserId: String(data.id),
+      email: data.email || null,
+      emailVerified: data.verified_email !== false,
+      firstName: data.given_name || data.name || 'Unknown',
+      lastName: data.family_name || 'User',
+      avatarUrl: data.picture || null,
+    };
+  },
+});
+
+// GitHub
+const githubApiUrl = process.env.GITHUB_API_URL || 'https://api.github.com';
+
+const github = createProvider({
+  name: 'github',
+  displayName: 'GitHub',
+  clientId: process.env.GITHUB_CLIENT_ID,
+  clientSecret: process.env.GITHUB_CLIENT_SECRET,
+  authorizeUrl: process.env.GITHUB_AUTHORIZE_URL || 'https://github.com/login/oauth/authorize',
+  tokenUrl: process.env.GITHUB_TOKEN_URL || 'https://github.com/login/oauth/access_token',
+  scopes: ['read:user', 'user:email'],
+
+  async fetchProfile(accessToken) {
+    const headers = {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/vnd.github+json',
+    };
+
+    const data = await fetchJson(`${githubApiUrl}/user`, { headers }, 'Failed to get user information from GitHub');
+
+    // The profile email may be hidden, so ask for the primary verified address
+    const emails: { email: string; primary: boolean; verified: boolean }[] = await fetchJson(
+      `${githubApiUrl}/user/emails`,
+      { headers },
+      'Failed to get email addresses from GitHub'
+    );
+    const primaryEmail = emails.find((email) => email.primary && email.verified);
+
+    const [firstName, ...rest] = (data.name || data.login || 'Unknown').trim().split(/\s+/);
+
+    return {
+      providerUserId: String(data.id),
+      email: primaryEmail?.email || null,
+      emailVerified: Boolean(primaryEmail),
+      firstName,
+      lastName: rest.join(' ') || 'User',
+      avatarUrl: data.avatar_url || null,
+    };
+  },
+});
+
+const providers: Record<string, OAuthProvider> = { google, github };
+
+for (const provider of Object.values(providers)) {
+  if (!provider.isConfigured()) {
+    console.warn(`${provider.displayName} OAuth credentials not found. ${provider.displayName} authentication will be disabled.`);
+  }
+}
+
+// Route pattern matching every registered provider name, e.g. "google|github"
+export const OAUTH_PROVIDER_PATTERN = Object.keys(providers).join('|');
+
+export function getOAuthProvider(name: string): OAuthProvider | null {
+  return providers[name] || null;
+}
@@ -1,5 +1,7 @@
-import { pgTable, serial, text, varchar, timestamp, integer, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, varchar, timestamp, integer, boolean, date, unique } from 'drizzle-orm/pg-core';
 
+// users, projects and skills also have a generated search_vector column (see migrate-search.sql);
+// it is left out here so that select() does not return it
 export const users = pgTable('users', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
@@ -7,17 +9,52 @@ export const users = pgTable('users', {
   username: varchar('username', { length: 50 }).unique(),
   password: text('password'),
   email: text('email').unique(),
+  emailVerifiedAt: timestamp('email_verified_at'), // Set once the user proves ownership of the email
   googleId: text('google_id').unique(),
   authProvider: varchar('auth_provider', { length: 20 }).default('local'), // 'local' or 'google'
-  role: varchar('role', { length: 20 }).default('user'), // 'user', 'admin'
+  role: varchar('role', { length: 20 }).default('user').references(() => roles.name), // 'user', 'admin', 'moderator', ...
   isActive: boolean('is_active').default(true), // For admin to enable/disable users
+  totpSecret: text('totp_secret'), // Base32 TOTP secret (pending until totpEnabledAt is set)
+  totpEnabledAt: timestamp('totp_enabled_at'),
+  totpRecoveryCodes: text('totp_recovery_codes'), // JSON string array of hashed one-time recovery codes
   profilePicture: text('profile_picture'), // URL for profile picture
   profilePictureKey: text('profile_picture_key'), // S3 key for uploaded images
   googleProfilePicture: text('google_profile_picture'), // Original Google profile picture URL
+  headline: varchar('headline', { length: 120 }), // One-line professional summary, e.g. "Backend developer"
+  bio: text('bio'), // Markdown
+  location: varchar('location', { length: 100 }),
+  timezone: varchar('timezone', { length: 64 }), // IANA zone, e.g. 'Europe/Madrid'
+  websiteUrl: text('website_url'),
+  githubUrl: text('github_url'),
+  linkedinUrl: text('linkedin_url'),
+  xUrl: text('x_url'),
+  openToWork: boolean('open_to_work').default(false),
+  // Who may see each part of the profile: 'public', 'connections' or 'private'
+  profileVisibility: varchar('profile_visibility', { length: 20 }).default('public').notNull(),
+  emailVisibility: varchar('email_visibility', { length: 20 }).default('private').notNull(),
+  skillsVisibility: varchar('skills_visibility', { length: 20 }).default('public').notNull(),
+  projectsVisibility: varchar('projects_visibility', { length: 20 }).default('public').notNull(),
+  roadmapsVisibility: varchar('roadmaps_visibility', { length: 20 }).default('public').notNull(),
+  deletionRequestedAt: timestamp('deletion_requested_at'), // Account is purged once the grace period has passed
+  deletedAt: timestamp('deleted_at'), // Set when personal data has been scrubbed
+  isSystem: boolean('is_system').default(false).notNull(), // Seeded "Deleted User" placeholder, cannot sign in
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// External login identities linked to a user (one user can have several)
+export const userIdentities = pgTable('user_identities', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  provider: varchar('provider', { length: 20 }).notNull(), // 'google', ...
+  providerUserId: text('provider_user_id').notNull(),
+  email: text('email'),
+  unlinkedAt: timestamp('unlinked_at'), // Kept so a provider login does not silently link it back by email
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  unique('user_identities_provider_user_unique').on(table.provider, table.providerUserId),
+]);
+
 export const projects = pgTable('projects', {
   id: serial('id').primaryKey(),
   title: text('title').notNull(),
@@ -177,3 +214,94 @@ export const roadmapFinalProjects = pgTable('roadmap_final_projects', {
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
+
+// Work history shown on the profile (endDate null means current position)
+export const workExperiences = pgTable('work_experiences', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  title: varchar('title', { length: 120 }).notNull(),
+  company: varchar('company', { length: 120 }).notNull(),
+  location: varchar('location', { length: 100 }),
+  employmentType: varchar('employment_type', { length: 20 }), // full-time, part-time, contract, freelance, internship
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date'),
+  description: text('description'), // Markdown
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Education shown on the profile (endDate null means still studying)
+export const educations = pgTable('educations', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  school: varchar('school', { length: 120 }).notNull(),
+  degree: varchar('degree', { length: 120 }),
+  fieldOfStudy: varchar('field_of_study', { length: 120 }),
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date'),
+  description: text('description'), // Markdown
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Single-use password reset tokens (only the SHA-256 hash is stored)
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Personal access tokens for scripts and integrations (only the SHA-256 hash is stored)
+export const personalAccessTokens = pgTable('personal_access_tokens', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  tokenPrefix: varchar('token_prefix', { length: 20 }).notNull(), // Start of the token, shown so users can tell tokens apart
+  scopes: text('scopes').notNull(), // JSON string array, e.g. ["projects:write"]
+  expiresAt: timestamp('expires_at').notNull(),
+  lastUsedAt: timestamp('last_used_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Roles a user can hold (users.role references roles.name)
+export const roles = pgTable('roles', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 20 }).notNull().unique(), // e.g. 'moderator', 'roadmap-author'
+  description: text('description'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Named capabilities checked by requirePermission, e.g. 'roadmaps:write'
+export const permissions = pgTable('permissions', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 50 }).notNull().unique(),
+  description: text('description'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const rolePermissions = pgTable('role_permissions', {
+  id: serial('id').primaryKey(),
+  roleId: integer('role_id').references(() => roles.id, { onDelete: 'cascade' }).notNull(),
+  permissionId: integer('permission_id').references(() => permissions.id, { onDelete: 'cascade' }).notNull(),
+}, (table) => [
+  unique('role_permissions_role_permission_unique').on(table.roleId, table.permissionId),
+]);
+
+// Record of privileged (admin panel) actions
+export const auditEvents = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  actorId: integer('actor_id').references(() => users.id, { onDelete: 'set null' }),
+  action: varchar('action', { length: 50 }).notNull(), // e.g. 'user.role.update', 'roadmap.delete'
+  targetType: varchar('target_type', { length: 30 }).notNull(), // e.g. 'user', 'roadmap', 'task'
+  targetId: text('target_id'),
+  before: text('before'), // JSON object of changed fields before the action
+  after: text('after'), // JSON object of changed fields after the action
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
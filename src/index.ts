@@ -10,9 +10,15 @@ import skills from './routes/skills.js'
 import chat from './routes/chat.js'
 import roadmaps from './routes/roadmaps.js'
 import admin from './routes/admin.js'
+import me from './routes/me.js'
+import portfolio from './routes/portfolio.js'
+import search from './routes/search.js'
 import { initializeBucket } from './services/s3.js'
 import { connectRedis, connectPubSub } from './utils/redis.js'
 import { initializeSocket } from './utils/socket.js'
+import { resolveClientIp, CLIENT_IP_HEADER } from './utils/client-ip.js'
+import { startAccountDeletionWorker } from './services/account-deletion.js'
+import { startExportCleanupWorker } from './services/account-export.js'
 
 const app = new Hono()
 
@@ -29,6 +35,7 @@ app.use(
     ],
     credentials: true,
     allowHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    exposeHeaders: ['ETag'],
   })
 )
 
@@ -56,6 +63,7 @@ app.all('*', async (c, next) => {
   await next()
 })
 
+app.route('/api/search', search)
 app.route('/api', users)
 app.route('/api/files', files)
 app.route('/api/projects', projects)
@@ -63,6 +71,8 @@ app.route('/api/skills', skills)
 app.route('/api/chat', chat)
 app.route('/api/roadmaps', roadmaps)
 app.route('/api/admin', admin)
+app.route('/api/me', me)
+app.route('/api/u', portfolio)
 
 // Initialize services and start server
 async function startServer() {
@@ -78,6 +88,12 @@ async function startServer() {
     await connectPubSub()
     console.log('✓ Redis services initialized')
 
+    // Purge accounts whose deletion grace period has ended
+    startAccountDeletionWorker()
+
+    // Delete data export archives once their download window is over
+    startExportCleanupWorker()
+
     // Create HTTP server with proper request handling
     const server = createServer((req, res) => {
       // Set CORS headers for all requests
@@ -94,9 +110,14 @@ async function startServer() {
 
       // Handle request with Hono
       const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+
+      // Rate limits, sessions and audit events see the socket address, or what a trusted proxy forwarded
+      const headers = { ...req.headers };
+      headers[CLIENT_IP_HEADER] = resolveClientIp(req.socket.remoteAddress, req.headers['x-forwarded-for']);
+
       const request = new Request(`http://localhost:${port}${req.url}`, {
         method: req.method,
-        headers: req.headers as any,
+        headers: headers as any,
         body: hasBody ? req : undefined,
         duplex: hasBody ? 'half' : undefined,
       } as any);
@@ -2,44 +2,87 @@ import type { Context, Next } from 'hono';
 import { db } from '../db/index.js';
 import { users } from '../db/schema.js';
 import { eq } from 'drizzle-orm';
+import { verifyJWT } from '../config/jwt.js';
+import { isSessionActive } from '../services/sessions.js';
+import { roleHasPermission, type Permission } from '../services/permissions.js';
 
-// Admin authentication middleware
-export async function requireAdmin(c: Context, next: Next) {
-  try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return c.json({ error: 'Authorization header required' }, 401);
-    }
+export type AdminUser = typeof users.$inferSelect;
 
-    const token = authHeader.substring(7);
-    // For now, we'll use a simple token that contains the user ID
-    // In production, use proper JWT verification
-    const userId = parseInt(token);
-    
-    if (!userId || isNaN(userId)) {
-      return c.json({ error: 'Invalid token' }, 401);
-    }
+export type AdminEnv = {
+  Variables: {
+    adminUser: AdminUser;
+  };
+};
 
-    const user = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, userId))
-      .limit(1);
+type AdminResolution =
+  | { user: AdminUser }
+  | { error: string; status: 401 | 403 };
+
+// Verify a signed token and check the stored role: the admin role, or one granting `permission`
+async function resolveAdmin(token: string, permission?: Permission): Promise<AdminResolution> {
+  const payload = verifyJWT(token);
+  if (!payload || typeof payload === 'string' || !payload.id || !payload.sid) {
+    return { error: 'Invalid or expired token', status: 401 };
+  }
+
+  // Support tokens act as a regular user and never reach admin routes
+  if (payload.impersonatedBy) {
+    return { error: 'Admin routes are not available while impersonating', status: 403 };
+  }
+
+  if (!(await isSessionActive(payload.sid, payload.id))) {
+    return { error: 'Session has been revoked', status: 401 };
+  }
+
+  if (!permission && payload.role !== 'admin') {
+    return { error: 'Admin access required', status: 403 };
+  }
+
+  const user = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, payload.id))
+    .limit(1);
+
+  if (user.length === 0) {
+    return { error: 'User not found', status: 401 };
+  }
 
-    if (user.length === 0) {
-      return c.json({ error: 'User not found' }, 401);
+  // Only the stored role counts; the token claim may be stale
+  if (permission) {
+    if (!(await roleHasPermission(user[0].role, permission))) {
+      return { error: `Missing permission: ${permission}`, status: 403 };
     }
+  } else if (user[0].role !== 'admin') {
+    return { error: 'Admin access required', status: 403 };
+  }
+
+  if (!user[0].isActive) {
+    return { error: 'Account is inactive', status: 403 };
+  }
+
+  // Optionally insist that admins protect their account with TOTP
+  if (process.env.ADMIN_REQUIRE_2FA === 'true' && !user[0].totpEnabledAt) {
+    return { error: 'Two-factor authentication must be enabled for admin access', status: 403 };
+  }
 
-    if (user[0].role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+  return { user: user[0] };
+}
+
+async function authenticateAdmin(c: Context<AdminEnv>, next: Next, permission?: Permission) {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ error: 'Authorization header required' }, 401);
     }
 
-    if (!user[0].isActive) {
-      return c.json({ error: 'Account is inactive' }, 403);
+    const result = await resolveAdmin(authHeader.substring(7), permission);
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status);
     }
 
     // Add user to context
-    c.set('adminUser', user[0]);
+    c.set('adminUser', result.user);
     
     await next();
   } catch (error) {
@@ -48,43 +91,24 @@ export async function requireAdmin(c: Context, next: Next) {
   }
 }
 
-// Check if user has admin role (for frontend use)
-export async function checkAdminRole(userId: number): Promise<boolean> {
-  try {
-    // Handle invalid userId
-    if (!userId || isNaN(userId)) {
-      return false;
-    }
+// Admin authentication middleware
+export async function requireAdmin(c: Context<AdminEnv>, next: Next) {
+  return authenticateAdmin(c, next);
+}
 
-    // Try to get user with role column, fallback if column doesn't exist
-    let user;
-    try {
-      user = await db
-        .select({ role: users.role, isActive: users.isActive })
-        .from(users)
-        .where(eq(users.id, userId))
-        .limit(1);
-    } catch (dbError: any) {
-      // If role column doesn't exist yet, check if user exists and return false
-      if (dbError.message?.includes('role') || dbError.message?.includes('is_active')) {
-        console.log('Role columns not yet added to database. Run migration first.');
-        // Try to get basic user info
-        const basicUser = await db
-          .select({ id: users.id })
-          .from(users)
-          .where(eq(users.id, userId))
-          .limit(1);
-        
-        // Return false for any user until migration is run
-        return false;
-      }
-      throw dbError;
-    }
+// Staff middleware: any role that grants the permission (admins hold them all)
+export function requirePermission(permission: Permission) {
+  return (c: Context<AdminEnv>, next: Next) => authenticateAdmin(c, next, permission);
+}
 
-    return user.length > 0 && user[0].role === 'admin' && user[0].isActive === true;
+// Check if the bearer of a token has admin role (for frontend use)
+export async function checkAdminRole(token: string): Promise<boolean> {
+  try {
+    const result = await resolveAdmin(token);
+    return 'user' in result;
   } catch (error) {
     console.error('Check admin role error:', error);
     // Return false for any database errors to prevent unauthorized access
     return false;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,212 @@
+import type { Context, Next } from 'hono';
+import { db } from '../db/index.js';
+import { users } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { verifyJWT } from '../config/jwt.js';
+import { isSessionActive, touchSession } from '../services/sessions.js';
+import { isAccessToken, resolveAccessToken, hasScope, type AccessTokenScope } from '../services/access-tokens.js';
+import { isImpersonationActive } from '../services/impersonation.js';
+import { recordAuditEvent } from '../services/audit.js';
+import { getClientIp } from '../utils/client-ip.js';
+
+export interface AuthUser {
+  id: number;
+  name: string;
+  lastname: string;
+  username: string | null;
+  email: string | null;
+  role: string | null;
+  emailVerified: boolean;
+  sessionId: string | null; // null when authenticated with a personal access token
+  scopes: string[] | null; // Personal access token scopes; null for interactive sessions (full access)
+  impersonatorId: number | null; // Admin acting as this user through a support token
+}
+
+export type AuthEnv = {
+  Variables: {
+    authUser: AuthUser;
+    viewer: AuthUser | null; // Set by optionalAuth; null for anonymous visitors
+  };
+};
+
+type AuthResolution =
+  | { user: AuthUser }
+  | { error: string; status: 401 | 403 };
+
+// Verify a session JWT or personal access token and load the signed-in user from the database
+export async function resolveAuthUser(token: string): Promise<AuthResolution> {
+  let userId: number;
+  let sessionId: string | null = null;
+  let scopes: string[] | null = null;
+  let impersonatorId: number | null = null;
+
+  if (isAccessToken(token)) {
+    const accessToken = await resolveAccessToken(token);
+    if (!accessToken) {
+      return { error: 'Invalid, expired or revoked access token', status: 401 };
+    }
+    userId = accessToken.userId;
+    scopes = accessToken.scopes;
+  } else {
+    const payload = verifyJWT(token);
+    if (!payload || typeof payload === 'string' || !payload.id || !payload.sid) {
+      return { error: 'Invalid or expired token', status: 401 };
+    }
+
+    if (payload.impersonatedBy) {
+      // Support tokens are tied to an impersonation record instead of a login session
+      if (!(await isImpersonationActive(payload.sid, payload.id, payload.impersonatedBy))) {
+        return { error: 'Impersonation session has ended', status: 401 };
+      }
+      impersonatorId = payload.impersonatedBy;
+    } else if (!(await isSessionActive(payload.sid, payload.id))) {
+      // Reject tokens whose session has been logged out or revoked
+      return { error: 'Session has been revoked', status: 401 };
+    } else {
+      await touchSession(payload.sid);
+    }
+    userId = payload.id;
+    sessionId = payload.sid;
+  }
+
+  const user = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      lastname: users.lastname,
+      username: users.username,
+      email: users.email,
+      role: users.role,
+      emailVerifiedAt: users.emailVerifiedAt,
+      isActive: users.isActive,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (user.length === 0) {
+    return { error: 'User not found', status: 401 };
+  }
+
+  if (user[0].isActive === false) {
+    return { error: 'Account is inactive', status: 403 };
+  }
+
+  const { isActive, emailVerifiedAt, ...authUser } = user[0];
+  return {
+    user: {
+      ...authUser,
+      emailVerified: emailVerifiedAt !== null,
+      sessionId,
+      scopes,
+      impersonatorId,
+    },
+  };
+}
+
+// Everything done through a support token is attributed to the admin behind it
+async function recordImpersonatedRequest(c: Context<AuthEnv>, user: AuthUser) {
+  if (!user.impersonatorId) {
+    return;
+  }
+
+  await recordAuditEvent({
+    actorId: user.impersonatorId,
+    action: 'impersonation.request',
+    targetType: 'user',
+    targetId: user.id,
+    after: { method: c.req.method, path: c.req.path, status: c.res.status },
+    ipAddress: getClientIp(c),
+    userAgent: c.req.header('User-Agent'),
+  });
+}
+
+async function authenticate(c: Context<AuthEnv>, next: Next, requiredScope: AccessTokenScope | null) {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ error: 'Authorization header required' }, 401);
+    }
+
+    const result = await resolveAuthUser(authHeader.substring(7));
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    // Personal access tokens only reach routes that name a scope they carry
+    const { scopes } = result.user;
+    if (scopes) {
+      if (!requiredScope) {
+        return c.json({ error: 'Personal access tokens cannot be used for this endpoint' }, 403);
+      }
+      if (!hasScope(scopes, requiredScope)) {
+        return c.json({ error: `Access token is missing the ${requiredScope} scope` }, 403);
+      }
+    }
+
+    c.set('authUser', result.user);
+
+    await next();
+
+    await recordImpersonatedRequest(c, result.user);
+  } catch (error) {
+    console.error('Auth middleware error:', error);
+    return c.json({ error: 'Authentication failed' }, 500);
+  }
+}
+
+// User authentication middleware (interactive sessions only)
+export async function requireAuth(c: Context<AuthEnv>, next: Next) {
+  return authenticate(c, next, null);
+}
+
+// Authenticate with a session or with a personal access token that carries the scope
+export function requireScope(scope: AccessTokenScope) {
+  return (c: Context<AuthEnv>, next: Next) => authenticate(c, next, scope);
+}
+
+// Identify the caller on public routes without requiring a token; invalid tokens and access
+// tokens without the scope are treated as anonymous
+export function optionalAuth(scope: AccessTokenScope | null = null) {
+  return async (c: Context<AuthEnv>, next: Next) => {
+    let viewer: AuthUser | null = null;
+
+    const authHeader = c.req.header('Authorization');
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      try {
+        const result = await resolveAuthUser(authHeader.substring(7));
+        if ('user' in result && (!result.user.scopes || (scope && hasScope(result.user.scopes, scope)))) {
+          viewer = result.user;
+        }
+      } catch (error) {
+        console.error('Optional auth error:', error);
+      }
+    }
+
+    c.set('viewer', viewer);
+
+    await next();
+
+    if (viewer) {
+      await recordImpersonatedRequest(c, viewer);
+    }
+  };
+}
+
+// Restrict an authenticated route to users with a verified email (use after requireAuth)
+export async function requireVerifiedEmail(c: Context<AuthEnv>, next: Next) {
+  if (!c.get('authUser').emailVerified) {
+    return c.json({ error: 'Please verify your email address first' }, 403);
+  }
+
+  await next();
+}
+
+// Keep credential and account-security changes out of reach of support tokens (use after requireAuth)
+export async function blockImpersonation(c: Context<AuthEnv>, next: Next) {
+  if (c.get('authUser').impersonatorId) {
+    return c.json({ error: 'This action is not allowed while impersonating a user' }, 403);
+  }
+
+  await next();
+}
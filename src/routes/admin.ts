@@ -1,18 +1,33 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { eq, desc, like, count, sql } from 'drizzle-orm';
 import { db } from '../db/index.js';
 import { users, skillRoadmaps, roadmapTasks, skills, projects } from '../db/schema.js';
-import { requireAdmin, checkAdminRole } from '../middleware/admin.js';
-
-const admin = new Hono();
-
-// Apply admin middleware to all routes
-admin.use('/*', requireAdmin);
-
+import { requirePermission, type AdminEnv } from '../middleware/admin.js';
+import { revokeAllSessions } from '../services/sessions.js';
+import { revokeAllAccessTokens } from '../services/access-tokens.js';
+import { roleExists, listRoles } from '../services/permissions.js';
+import { recordAuditEvent, queryAuditEvents, auditEventsToCsv, parseRangeEnd, type AuditEventInput, type AuditFilters } from '../services/audit.js';
+import { getClientIp } from '../utils/client-ip.js';
+import { startImpersonation } from '../services/impersonation.js';
+import { listLockouts, clearFailures, THROTTLE_SCOPES, type ThrottleScope } from '../services/login-throttle.js';
+
+const admin = new Hono<AdminEnv>();
+
+// Every route names the permission it needs; the admin role holds them all
+
+// Record a privileged action by the signed-in admin (every mutating route below calls this)
+async function audit(c: Context<AdminEnv>, event: Omit<AuditEventInput, 'actorId' | 'ipAddress' | 'userAgent'>) {
+  await recordAuditEvent({
+    ...event,
+    actorId: c.get('adminUser').id,
+    ipAddress: getClientIp(c),
+    userAgent: c.req.header('User-Agent'),
+  });
+}
 // ===== USER MANAGEMENT =====
 
 // Get all users with pagination
-admin.get('/users', async (c) => {
+admin.get('/users', requirePermission('users:read'), async (c) => {
   try {
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '20');
@@ -72,7 +87,7 @@ admin.get('/users', async (c) => {
 });
 
 // Get single user details
-admin.get('/users/:id', async (c) => {
+admin.get('/users/:id', requirePermission('users:read'), async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
     
@@ -116,20 +131,47 @@ admin.get('/users/:id', async (c) => {
 });
 
 // Update user role
-admin.put('/users/:id/role', async (c) => {
+admin.put('/users/:id/role', requirePermission('users:write'), async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
     const { role } = await c.req.json();
     
-    if (!['user', 'admin'].includes(role)) {
+    if (typeof role !== 'string' || !(await roleExists(role))) {
       return c.json({ error: 'Invalid role' }, 400);
     }
 
+    const target = await db.select().from(users).where(eq(users.id, userId));
+    if (target.length === 0) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    if (target[0].isSystem) {
+      return c.json({ error: 'System accounts cannot be changed' }, 400);
+    }
+
+    // Only admins may hand out or take away the admin role
+    if ((role === 'admin' || target[0].role === 'admin') && c.get('adminUser').role !== 'admin') {
+      return c.json({ error: 'Only admins can change admin roles' }, 403);
+    }
+
     await db
       .update(users)
       .set({ role, updatedAt: new Date() })
       .where(eq(users.id, userId));
 
+    await audit(c, {
+      action: 'user.role.update',
+      targetType: 'user',
+      targetId: userId,
+      before: { role: target[0].role },
+      after: { role }
+    });
+
+    // Tokens carry the role they were issued with, so make the user sign in again
+    if (role !== target[0].role) {
+      await revokeAllSessions(userId);
+    }
+
     return c.json({
       success: true,
       message: 'User role updated successfully'
@@ -140,17 +182,59 @@ admin.put('/users/:id/role', async (c) => {
   }
 });
 
+// List defined roles and the permissions they grant
+admin.get('/roles', requirePermission('users:read'), async (c) => {
+  try {
+    const allRoles = await listRoles();
+
+    return c.json({
+      success: true,
+      data: allRoles
+    });
+  } catch (error: any) {
+    console.error('Admin get roles error:', error);
+    return c.json({ error: 'Failed to fetch roles' }, 500);
+  }
+});
+
 // Toggle user active status
-admin.put('/users/:id/status', async (c) => {
+admin.put('/users/:id/status', requirePermission('users:write'), async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
     const { isActive } = await c.req.json();
+
+    const target = await db
+      .select({ isActive: users.isActive, isSystem: users.isSystem })
+      .from(users)
+      .where(eq(users.id, userId));
+    if (target.length === 0) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    // The "Deleted User" placeholder must never become a usable account
+    if (target[0].isSystem) {
+      return c.json({ error: 'System accounts cannot be changed' }, 400);
+    }
     
     await db
       .update(users)
       .set({ isActive: Boolean(isActive), updatedAt: new Date() })
       .where(eq(users.id, userId));
 
+    await audit(c, {
+      action: 'user.status.update',
+      targetType: 'user',
+      targetId: userId,
+      before: { isActive: target[0].isActive },
+      after: { isActive: Boolean(isActive) }
+    });
+
+    // Deactivated users are logged out everywhere and lose their API tokens
+    if (!isActive) {
+      await revokeAllSessions(userId);
+      await revokeAllAccessTokens(userId);
+    }
+
     return c.json({
       success: true,
       message: `User ${isActive ? 'activated' : 'deactivated'} successfully`
@@ -162,22 +246,37 @@ admin.put('/users/:id/status', async (c) => {
 });
 
 // Delete user (soft delete by deactivating)
-admin.delete('/users/:id', async (c) => {
+admin.delete('/users/:id', requirePermission('users:write'), async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
-    // @ts-ignore - Hono context typing issue with custom middleware
-    const adminUser = c.get('adminUser') as any;
+    const adminUser = c.get('adminUser');
     
     // Prevent admin from deleting themselves
     if (userId === adminUser.id) {
       return c.json({ error: 'Cannot delete your own account' }, 400);
     }
 
+    const target = await db.select({ isActive: users.isActive }).from(users).where(eq(users.id, userId));
+    if (target.length === 0) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
     await db
       .update(users)
       .set({ isActive: false, updatedAt: new Date() })
       .where(eq(users.id, userId));
 
+    await revokeAllSessions(userId);
+    await revokeAllAccessTokens(userId);
+
+    await audit(c, {
+      action: 'user.delete',
+      targetType: 'user',
+      targetId: userId,
+      before: { isActive: target[0].isActive },
+      after: { isActive: false }
+    });
+
     return c.json({
       success: true,
       message: 'User deleted successfully'
@@ -188,10 +287,110 @@ admin.delete('/users/:id', async (c) => {
   }
 });
 
+// Act as a user for support; every request made with the token is audited
+admin.post('/users/:id/impersonate', requirePermission('users:impersonate'), async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const adminUser = c.get('adminUser');
+
+    if (userId === adminUser.id) {
+      return c.json({ error: 'Cannot impersonate yourself' }, 400);
+    }
+
+    const target = await db.select().from(users).where(eq(users.id, userId));
+    if (target.length === 0) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    if (target[0].role === 'admin') {
+      return c.json({ error: 'Admins cannot be impersonated' }, 403);
+    }
+
+    if (!target[0].isActive) {
+      return c.json({ error: 'Cannot impersonate an inactive user' }, 400);
+    }
+
+    const { impersonationId, token, expiresAt } = await startImpersonation(adminUser.id, target[0]);
+
+    await audit(c, {
+      action: 'user.impersonate',
+      targetType: 'user',
+      targetId: userId,
+      after: { impersonationId, expiresAt }
+    });
+
+    return c.json({
+      success: true,
+      message: `Impersonating ${target[0].username || target[0].name} until ${expiresAt.toISOString()}`,
+      data: {
+        token,
+        expiresAt,
+        impersonating: true,
+        impersonatedBy: { id: adminUser.id, username: adminUser.username },
+        user: {
+          id: target[0].id,
+          name: target[0].name,
+          lastname: target[0].lastname,
+          username: target[0].username,
+          role: target[0].role
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error('Admin impersonate user error:', error);
+    return c.json({ error: 'Failed to impersonate user' }, 500);
+  }
+});
+
+// ===== LOGIN LOCKOUTS =====
+
+// List usernames, users and IPs with recent failed sign-in attempts
+admin.get('/lockouts', requirePermission('users:read'), async (c) => {
+  try {
+    const lockouts = await listLockouts();
+
+    return c.json({
+      success: true,
+      data: lockouts
+    });
+  } catch (error: any) {
+    console.error('Admin get lockouts error:', error);
+    return c.json({ error: 'Failed to fetch lockouts' }, 500);
+  }
+});
+
+// Clear failures and any lockout for a single key
+admin.delete('/lockouts/:scope/:identifier', requirePermission('users:write'), async (c) => {
+  try {
+    const scope = c.req.param('scope') as ThrottleScope;
+    const identifier = c.req.param('identifier');
+
+    if (!THROTTLE_SCOPES.includes(scope)) {
+      return c.json({ error: `Scope must be one of: ${THROTTLE_SCOPES.join(', ')}` }, 400);
+    }
+
+    await clearFailures([{ scope, identifier }]);
+
+    await audit(c, {
+      action: 'lockout.clear',
+      targetType: 'lockout',
+      targetId: `${scope}:${identifier}`
+    });
+
+    return c.json({
+      success: true,
+      message: 'Lockout cleared successfully'
+    });
+  } catch (error: any) {
+    console.error('Admin clear lockout error:', error);
+    return c.json({ error: 'Failed to clear lockout' }, 500);
+  }
+});
+
 // ===== ROADMAP MANAGEMENT =====
 
 // Get all skill roadmaps
-admin.get('/roadmaps', async (c) => {
+admin.get('/roadmaps', requirePermission('roadmaps:write'), async (c) => {
   try {
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '20');
@@ -234,7 +433,7 @@ admin.get('/roadmaps', async (c) => {
 });
 
 // Create new roadmap
-admin.post('/roadmaps', async (c) => {
+admin.post('/roadmaps', requirePermission('roadmaps:write'), async (c) => {
   try {
     const {
       name,
@@ -265,6 +464,13 @@ admin.post('/roadmaps', async (c) => {
       })
       .returning();
 
+    await audit(c, {
+      action: 'roadmap.create',
+      targetType: 'roadmap',
+      targetId: newRoadmap[0].id,
+      after: newRoadmap[0]
+    });
+
     return c.json({
       success: true,
       data: newRoadmap[0],
@@ -277,7 +483,7 @@ admin.post('/roadmaps', async (c) => {
 });
 
 // Update roadmap
-admin.put('/roadmaps/:id', async (c) => {
+admin.put('/roadmaps/:id', requirePermission('roadmaps:write'), async (c) => {
   try {
     const roadmapId = parseInt(c.req.param('id'));
     const {
@@ -302,12 +508,25 @@ admin.put('/roadmaps/:id', async (c) => {
     if (difficulty !== undefined) updateData.difficulty = difficulty;
     if (isActive !== undefined) updateData.isActive = isActive;
 
+    const existingRoadmap = await db.select().from(skillRoadmaps).where(eq(skillRoadmaps.id, roadmapId));
+    if (existingRoadmap.length === 0) {
+      return c.json({ error: 'Roadmap not found' }, 404);
+    }
+
     const updatedRoadmap = await db
       .update(skillRoadmaps)
       .set(updateData)
       .where(eq(skillRoadmaps.id, roadmapId))
       .returning();
 
+    await audit(c, {
+      action: 'roadmap.update',
+      targetType: 'roadmap',
+      targetId: roadmapId,
+      before: existingRoadmap[0],
+      after: updatedRoadmap[0]
+    });
+
     return c.json({
       success: true,
       data: updatedRoadmap[0],
@@ -320,7 +539,7 @@ admin.put('/roadmaps/:id', async (c) => {
 });
 
 // Delete roadmap
-admin.delete('/roadmaps/:id', async (c) => {
+admin.delete('/roadmaps/:id', requirePermission('roadmaps:write'), async (c) => {
   try {
     const roadmapId = parseInt(c.req.param('id'));
     
@@ -334,9 +553,21 @@ admin.delete('/roadmaps/:id', async (c) => {
       return c.json({ error: 'Cannot delete roadmap with existing tasks' }, 400);
     }
 
-    await db
+    const deletedRoadmap = await db
       .delete(skillRoadmaps)
-      .where(eq(skillRoadmaps.id, roadmapId));
+      .where(eq(skillRoadmaps.id, roadmapId))
+      .returning();
+
+    if (deletedRoadmap.length === 0) {
+      return c.json({ error: 'Roadmap not found' }, 404);
+    }
+
+    await audit(c, {
+      action: 'roadmap.delete',
+      targetType: 'roadmap',
+      targetId: roadmapId,
+      before: deletedRoadmap[0]
+    });
 
     return c.json({
       success: true,
@@ -351,7 +582,7 @@ admin.delete('/roadmaps/:id', async (c) => {
 // ===== TASK MANAGEMENT =====
 
 // Get tasks for a roadmap
-admin.get('/roadmaps/:id/tasks', async (c) => {
+admin.get('/roadmaps/:id/tasks', requirePermission('roadmaps:write'), async (c) => {
   try {
     const roadmapId = parseInt(c.req.param('id'));
     
@@ -372,7 +603,7 @@ admin.get('/roadmaps/:id/tasks', async (c) => {
 });
 
 // Create new task
-admin.post('/roadmaps/:id/tasks', async (c) => {
+admin.post('/roadmaps/:id/tasks', requirePermission('roadmaps:write'), async (c) => {
   try {
     const roadmapId = parseInt(c.req.param('id'));
     const {
@@ -401,6 +632,13 @@ admin.post('/roadmaps/:id/tasks', async (c) => {
       })
       .returning();
 
+    await audit(c, {
+      action: 'task.create',
+      targetType: 'task',
+      targetId: newTask[0].id,
+      after: newTask[0]
+    });
+
     return c.json({
       success: true,
       data: newTask[0],
@@ -413,7 +651,7 @@ admin.post('/roadmaps/:id/tasks', async (c) => {
 });
 
 // Update task
-admin.put('/tasks/:id', async (c) => {
+admin.put('/tasks/:id', requirePermission('roadmaps:write'), async (c) => {
   try {
     const taskId = parseInt(c.req.param('id'));
     const {
@@ -434,12 +672,25 @@ admin.put('/tasks/:id', async (c) => {
     if (resources !== undefined) updateData.resources = JSON.stringify(resources);
     if (prerequisites !== undefined) updateData.prerequisites = JSON.stringify(prerequisites);
 
+    const existingTask = await db.select().from(roadmapTasks).where(eq(roadmapTasks.id, taskId));
+    if (existingTask.length === 0) {
+      return c.json({ error: 'Task not found' }, 404);
+    }
+
     const updatedTask = await db
       .update(roadmapTasks)
       .set(updateData)
       .where(eq(roadmapTasks.id, taskId))
       .returning();
 
+    await audit(c, {
+      action: 'task.update',
+      targetType: 'task',
+      targetId: taskId,
+      before: existingTask[0],
+      after: updatedTask[0]
+    });
+
     return c.json({
       success: true,
       data: updatedTask[0],
@@ -452,13 +703,25 @@ admin.put('/tasks/:id', async (c) => {
 });
 
 // Delete task
-admin.delete('/tasks/:id', async (c) => {
+admin.delete('/tasks/:id', requirePermission('roadmaps:write'), async (c) => {
   try {
     const taskId = parseInt(c.req.param('id'));
     
-    await db
+    const deletedTask = await db
       .delete(roadmapTasks)
-      .where(eq(roadmapTasks.id, taskId));
+      .where(eq(roadmapTasks.id, taskId))
+      .returning();
+
+    if (deletedTask.length === 0) {
+      return c.json({ error: 'Task not found' }, 404);
+    }
+
+    await audit(c, {
+      action: 'task.delete',
+      targetType: 'task',
+      targetId: taskId,
+      before: deletedTask[0]
+    });
 
     return c.json({
       success: true,
@@ -473,7 +736,7 @@ admin.delete('/tasks/:id', async (c) => {
 // ===== SKILL MANAGEMENT =====
 
 // Get all skills
-admin.get('/skills', async (c) => {
+admin.get('/skills', requirePermission('stats:read'), async (c) => {
   try {
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '50');
@@ -569,7 +832,7 @@ admin.get('/skills', async (c) => {
 // ===== DASHBOARD STATS =====
 
 // Get admin dashboard statistics
-admin.get('/stats', async (c) => {
+admin.get('/stats', requirePermission('stats:read'), async (c) => {
   try {
     // Get user counts
     const totalUsers = await db.select({ count: count() }).from(users);
@@ -608,4 +871,54 @@ admin.get('/stats', async (c) => {
   }
 });
 
+// ===== AUDIT LOG =====
+
+// Audit events, filterable by actor, action, target and date range; ?format=csv downloads them
+admin.get('/audit', requirePermission('audit:read'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
+    const format = c.req.query('format');
+
+    const from = c.req.query('from') ? new Date(c.req.query('from')!) : undefined;
+    const rangeEnd = c.req.query('to') ? parseRangeEnd(c.req.query('to')!) : {};
+    if ((from && isNaN(from.getTime())) || !rangeEnd) {
+      return c.json({ error: 'from and to must be valid dates' }, 400);
+    }
+
+    const filters: AuditFilters = {
+      actorId: c.req.query('actorId') ? parseInt(c.req.query('actorId')!) : undefined,
+      action: c.req.query('action') || undefined,
+      targetType: c.req.query('targetType') || undefined,
+      targetId: c.req.query('targetId') || undefined,
+      from,
+      ...rangeEnd
+    };
+
+    if (format === 'csv') {
+      // Exports ignore paging but are capped to keep the response bounded
+      const { events } = await queryAuditEvents(filters, 10000);
+      c.header('Content-Type', 'text/csv; charset=utf-8');
+      c.header('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`);
+      return c.body(auditEventsToCsv(events));
+    }
+
+    const { events, total } = await queryAuditEvents(filters, limit, (page - 1) * limit);
+
+    return c.json({
+      success: true,
+      data: events,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error: any) {
+    console.error('Admin get audit log error:', error);
+    return c.json({ error: 'Failed to fetch audit log' }, 500);
+  }
+});
+
 export default admin;
\ No newline at end of file
@@ -3,8 +3,9 @@ import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import { eq, and, or, desc, asc, ne } from 'drizzle-orm';
 import { conversations, messages, users } from '../db/schema.js';
+import { requireAuth, requireVerifiedEmail, type AuthEnv } from '../middleware/auth.js';
 
-const router = new Hono();
+const router = new Hono<AuthEnv>();
 
 // Initialize database connection
 const connectionString = process.env.DATABASE_URL!;
@@ -12,7 +13,7 @@ const sql = postgres(connectionString);
 const db = drizzle(sql);
 
 // Get or create conversation between two users
-router.post('/conversations', async (c) => {
+router.post('/conversations', requireAuth, async (c) => {
   try {
     const body = await c.req.json();
     console.log('Received conversation request:', body);
@@ -24,6 +25,12 @@ router.post('/conversations', async (c) => {
       return c.json({ error: 'Both user IDs are required' }, 400);
     }
 
+    // The signed-in user must be one of the participants
+    const authUserId = c.get('authUser').id;
+    if (user1Id !== authUserId && user2Id !== authUserId) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     if (user1Id === user2Id) {
       return c.json({ error: 'Cannot create conversation with yourself' }, 400);
     }
@@ -78,7 +85,7 @@ router.post('/conversations', async (c) => {
 });
 
 // Get user's conversations with last message info
-router.get('/conversations/:userId', async (c) => {
+router.get('/conversations/:userId', requireAuth, async (c) => {
   try {
     const userId = parseInt(c.req.param('userId'));
 
@@ -86,6 +93,11 @@ router.get('/conversations/:userId', async (c) => {
       return c.json({ error: 'User ID is required' }, 400);
     }
 
+    // Users may only list their own conversations
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     // Get conversations where user is participant
     const userConversations = await db
       .select({
@@ -165,17 +177,37 @@ router.get('/conversations/:userId', async (c) => {
 });
 
 // Get messages in a conversation
-router.get('/conversations/:conversationId/messages', async (c) => {
+router.get('/conversations/:conversationId/messages', requireAuth, async (c) => {
   try {
     const conversationId = parseInt(c.req.param('conversationId'));
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '50');
     const offset = (page - 1) * limit;
+    const userId = c.get('authUser').id;
 
     if (!conversationId) {
       return c.json({ error: 'Conversation ID is required' }, 400);
     }
 
+    // Verify user is a participant of the conversation
+    const conversation = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.id, conversationId),
+          or(
+            eq(conversations.user1Id, userId),
+            eq(conversations.user2Id, userId)
+          )
+        )
+      )
+      .limit(1);
+
+    if (conversation.length === 0) {
+      return c.json({ error: 'Conversation not found or access denied' }, 404);
+    }
+
     // Get messages with sender info
     const conversationMessages = await db
       .select({
@@ -216,12 +248,19 @@ router.get('/conversations/:conversationId/messages', async (c) => {
 });
 
 // Send a message (also handled via Socket.IO, but this is for HTTP fallback)
-router.post('/messages', async (c) => {
+router.post('/messages', requireAuth, requireVerifiedEmail, async (c) => {
   try {
-    const { conversationId, senderId, content, messageType = 'text' } = await c.req.json();
+    const body = await c.req.json();
+    const { conversationId, content, messageType = 'text' } = body;
+    const senderId = c.get('authUser').id;
+
+    // Messages can only be sent as the signed-in user
+    if (body.senderId !== undefined && body.senderId !== senderId) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
 
-    if (!conversationId || !senderId || !content?.trim()) {
-      return c.json({ error: 'Conversation ID, sender ID, and content are required' }, 400);
+    if (!conversationId || !content?.trim()) {
+      return c.json({ error: 'Conversation ID and content are required' }, 400);
     }
 
     // Verify conversation exists and user is participant
@@ -291,12 +330,37 @@ router.post('/messages', async (c) => {
 });
 
 // Mark messages as read
-router.put('/messages/read', async (c) => {
+router.put('/messages/read', requireAuth, async (c) => {
   try {
-    const { conversationId, userId } = await c.req.json();
+    const body = await c.req.json();
+    const { conversationId } = body;
+    const userId = c.get('authUser').id;
+
+    if (body.userId !== undefined && body.userId !== userId) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
 
-    if (!conversationId || !userId) {
-      return c.json({ error: 'Conversation ID and user ID are required' }, 400);
+    if (!conversationId) {
+      return c.json({ error: 'Conversation ID is required' }, 400);
+    }
+
+    // Verify user is a participant of the conversation
+    const conversation = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.id, conversationId),
+          or(
+            eq(conversations.user1Id, userId),
+            eq(conversations.user2Id, userId)
+          )
+        )
+      )
+      .limit(1);
+
+    if (conversation.length === 0) {
+      return c.json({ error: 'Conversation not found or access denied' }, 404);
     }
 
     // Mark all unread messages from other users in this conversation as read
@@ -323,7 +387,7 @@ router.put('/messages/read', async (c) => {
 });
 
 // Get unread message count for a user
-router.get('/unread-count/:userId', async (c) => {
+router.get('/unread-count/:userId', requireAuth, async (c) => {
   try {
     const userId = parseInt(c.req.param('userId'));
 
@@ -331,6 +395,10 @@ router.get('/unread-count/:userId', async (c) => {
       return c.json({ error: 'User ID is required' }, 400);
     }
 
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     // Get all conversations for this user
     const userConversations = await db
       .select({ id: conversations.id })
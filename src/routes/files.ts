@@ -2,9 +2,11 @@ import { Hono } from 'hono';
 import multer from 'multer';
 import { uploadFile, generatePresignedUploadUrl, generatePresignedDownloadUrl, deleteFile, getFileUrl, generateFileKey } from '../services/s3.js';
 import { db } from '../db/index.js';
-import { taskCertificates } from '../db/schema.js';
+import { taskCertificates, userTaskProgress } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { requireAuth, type AuthEnv } from '../middleware/auth.js';
 
-const router = new Hono();
+const router = new Hono<AuthEnv>();
 
 // Configure multer for memory storage
 const storage = multer.memoryStorage();
@@ -36,7 +38,7 @@ const upload = multer({
 });
 
 // Direct file upload endpoint
-router.post('/upload', async (c) => {
+router.post('/upload', requireAuth, async (c) => {
   try {
     // Note: In a real Hono app, you'd need to use a different approach for file uploads
     // This is a simplified example. You might want to use hono/middleware for multipart
@@ -53,7 +55,7 @@ router.post('/upload', async (c) => {
     const fileBuffer = Buffer.from(buffer);
     
     // Generate unique key
-    const fileKey = generateFileKey(file.name);
+    const fileKey = generateFileKey(file.name, c.get('authUser').id);
     
     // Upload to S3
     const fileUrl = await uploadFile(fileKey, fileBuffer, file.type);
@@ -78,15 +80,20 @@ router.post('/upload', async (c) => {
 });
 
 // Generate presigned URL for direct upload to S3
-router.post('/presigned-upload-url', async (c) => {
+router.post('/presigned-upload-url', requireAuth, async (c) => {
   try {
-    const { fileName, contentType, userId } = await c.req.json();
+    const { fileName, contentType, userId: requestedUserId } = await c.req.json();
+    const userId = c.get('authUser').id;
     
     if (!fileName || !contentType) {
       return c.json({ 
         error: 'fileName and contentType are required' 
       }, 400);
     }
+
+    if (requestedUserId !== undefined && parseInt(requestedUserId) !== userId) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
     
     // Generate unique key
     const fileKey = generateFileKey(fileName, userId);
@@ -166,9 +173,25 @@ router.get('/url/:fileKey', async (c) => {
 });
 
 // Upload certificate for a task
-router.post('/upload-certificate/:taskProgressId', async (c) => {
+router.post('/upload-certificate/:taskProgressId', requireAuth, async (c) => {
   try {
     const taskProgressId = c.req.param('taskProgressId');
+    const userId = c.get('authUser').id;
+
+    const [progress] = await db
+      .select({ userId: userTaskProgress.userId })
+      .from(userTaskProgress)
+      .where(eq(userTaskProgress.id, parseInt(taskProgressId)))
+      .limit(1);
+
+    if (!progress) {
+      return c.json({ error: 'Task progress not found' }, 404);
+    }
+
+    if (progress.userId !== userId) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     const body = await c.req.parseBody();
     
     const certificateFile = body['certificate'] as File;
@@ -185,7 +208,7 @@ router.post('/upload-certificate/:taskProgressId', async (c) => {
     const fileBuffer = Buffer.from(buffer);
     
     // Generate unique key for certificate
-    const fileKey = generateFileKey(`certificates/${certificateFile.name}`);
+    const fileKey = generateFileKey(`certificates/${certificateFile.name}`, userId);
     
     // Upload to S3
     const fileUrl = await uploadFile(fileKey, fileBuffer, certificateFile.type);
@@ -217,13 +240,18 @@ router.post('/upload-certificate/:taskProgressId', async (c) => {
 });
 
 // Delete file
-router.delete('/:fileKey', async (c) => {
+router.delete('/:fileKey', requireAuth, async (c) => {
   try {
     const fileKey = c.req.param('fileKey');
     
     if (!fileKey) {
       return c.json({ error: 'fileKey is required' }, 400);
     }
+
+    // Only files stored under the user's own prefix can be deleted
+    if (!fileKey.startsWith(`users/${c.get('authUser').id}/`)) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
     
     await deleteFile(fileKey);
     
@@ -0,0 +1,306 @@
+import { Hono } from 'hono';
+import bcrypt from 'bcryptjs';
+import { eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users } from '../db/schema.js';
+import { requireAuth, blockImpersonation, type AuthEnv } from '../middleware/auth.js';
+import {
+  startAccountExport,
+  getExportJob,
+  getLatestExportJob,
+  getExportDownloadUrl,
+  EXPORT_URL_TTL,
+  type ExportJob
+} from '../services/account-export.js';
+import { listSessions, getSessionOwner, revokeSession } from '../services/sessions.js';
+import { buildPortfolioById, isVisiblePortfolio } from '../services/portfolio.js';
+import { getResumePdf, isResumeTemplate, resumeFilename, RESUME_TEMPLATES } from '../services/resume.js';
+import { toJsonResume, planResumeImport, applyResumeImport, ResumeImportError } from '../services/json-resume.js';
+import {
+  getPrivacySettings,
+  updatePrivacySettings,
+  isVisibility,
+  PRIVACY_SECTIONS,
+  VISIBILITY_LEVELS,
+  type PrivacySettings
+} from '../services/privacy.js';
+import { scheduleAccountDeletion, cancelAccountDeletion, getDeletionDate, DELETION_GRACE_DAYS } from '../services/account-deletion.js';
+
+const router = new Hono<AuthEnv>();
+
+// Everything under /me acts on the signed-in user
+router.use('/*', requireAuth);
+
+// Job status returned to the client, with a fresh download link once ready
+async function toExportJobData(job: ExportJob) {
+  const downloadUrl = await getExportDownloadUrl(job);
+
+  return {
+    id: job.id,
+    status: job.status,
+    error: job.error,
+    createdAt: new Date(job.createdAt),
+    completedAt: job.completedAt ? new Date(job.completedAt) : null,
+    downloadUrl,
+    downloadUrlExpiresIn: downloadUrl ? EXPORT_URL_TTL : null
+  };
+}
+
+// ===== DATA EXPORT =====
+
+// Archives hold private messages and leave through presigned links, so support sessions cannot reach them
+
+// Start exporting all of the user's data as a ZIP archive
+router.post('/export', blockImpersonation, async (c) => {
+  try {
+    const job = await startAccountExport(c.get('authUser').id);
+
+    return c.json({
+      message: 'Your export is being prepared',
+      export: await toExportJobData(job)
+    }, 202);
+  } catch (error) {
+    console.error('Start export error:', error);
+    return c.json({ error: 'Failed to start export' }, 500);
+  }
+});
+
+// Status of the most recent export
+router.get('/export', blockImpersonation, async (c) => {
+  try {
+    const job = await getLatestExportJob(c.get('authUser').id);
+    if (!job) {
+      return c.json({ error: 'No export found' }, 404);
+    }
+
+    return c.json({ export: await toExportJobData(job) });
+  } catch (error) {
+    console.error('Get export error:', error);
+    return c.json({ error: 'Failed to fetch export' }, 500);
+  }
+});
+
+// Status of a specific export
+router.get('/export/:jobId', blockImpersonation, async (c) => {
+  try {
+    const job = await getExportJob(c.req.param('jobId'));
+    if (!job || job.userId !== c.get('authUser').id) {
+      return c.json({ error: 'Export not found' }, 404);
+    }
+
+    return c.json({ export: await toExportJobData(job) });
+  } catch (error) {
+    console.error('Get export error:', error);
+    return c.json({ error: 'Failed to fetch export' }, 500);
+  }
+});
+
+// ===== RESUME =====
+
+// Download the user's resume as a PDF (?template=classic|modern)
+router.get('/resume.pdf', async (c) => {
+  try {
+    const template = c.req.query('template') || 'classic';
+    if (!isResumeTemplate(template)) {
+      return c.json({ error: `template must be one of: ${RESUME_TEMPLATES.join(', ')}` }, 400);
+    }
+
+    const authUser = c.get('authUser');
+    const portfolio = await buildPortfolioById(authUser.id, authUser.id);
+    if (!portfolio || !isVisiblePortfolio(portfolio)) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const pdf = await getResumePdf(portfolio, 'owner', template);
+
+    return c.body(pdf, 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${resumeFilename(portfolio.profile)}"`,
+      'Cache-Control': 'private, no-cache'
+    });
+  } catch (error) {
+    console.error('Generate resume error:', error);
+    return c.json({ error: 'Failed to generate resume' }, 500);
+  }
+});
+
+// Export the user's profile, skills and published projects as a JSON Resume document
+router.get('/resume.json', async (c) => {
+  try {
+    const authUser = c.get('authUser');
+    const portfolio = await buildPortfolioById(authUser.id, authUser.id);
+    if (!portfolio || !isVisiblePortfolio(portfolio)) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    return c.json(toJsonResume(portfolio));
+  } catch (error) {
+    console.error('Export JSON Resume error:', error);
+    return c.json({ error: 'Failed to export resume' }, 500);
+  }
+});
+
+// Import a JSON Resume document; with ?dryRun=true only the changes that would be made are returned
+router.post('/resume/import', blockImpersonation, async (c) => {
+  try {
+    const dryRun = c.req.query('dryRun') === 'true';
+    const document = await c.req.json().catch(() => null);
+    if (!document) {
+      return c.json({ error: 'Request body must be a JSON Resume document' }, 400);
+    }
+
+    const userId = c.get('authUser').id;
+    const changes = await planResumeImport(userId, document);
+
+    if (dryRun) {
+      return c.json({ dryRun: true, changes });
+    }
+
+    await applyResumeImport(userId, changes);
+
+    return c.json({ message: 'Resume imported successfully', dryRun: false, changes });
+  } catch (error) {
+    if (error instanceof ResumeImportError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error('Import JSON Resume error:', error);
+    return c.json({ error: 'Failed to import resume' }, 500);
+  }
+});
+
+// ===== SESSIONS =====
+
+// Devices and browsers the user is signed in on
+router.get('/sessions', async (c) => {
+  try {
+    const authUser = c.get('authUser');
+    const sessions = await listSessions(authUser.id, authUser.sessionId);
+
+    return c.json({ sessions });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    return c.json({ error: 'Failed to fetch sessions' }, 500);
+  }
+});
+
+// Sign out a single session (its open chat connections are closed too)
+router.delete('/sessions/:id', blockImpersonation, async (c) => {
+  try {
+    const sessionId = c.req.param('id');
+
+    if ((await getSessionOwner(sessionId)) !== c.get('authUser').id) {
+      return c.json({ error: 'Session not found' }, 404);
+    }
+
+    await revokeSession(sessionId);
+
+    return c.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return c.json({ error: 'Failed to revoke session' }, 500);
+  }
+});
+
+// ===== PRIVACY =====
+
+// Who can see each part of the user's profile
+router.get('/privacy', async (c) => {
+  try {
+    const settings = await getPrivacySettings(c.get('authUser').id);
+    if (!settings) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    return c.json({ privacy: settings, levels: VISIBILITY_LEVELS });
+  } catch (error) {
+    console.error('Get privacy settings error:', error);
+    return c.json({ error: 'Failed to fetch privacy settings' }, 500);
+  }
+});
+
+// Change the visibility of one or more sections
+router.put('/privacy', blockImpersonation, async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+
+    const changes: Partial<PrivacySettings> = {};
+    for (const section of PRIVACY_SECTIONS) {
+      if (body[section] === undefined) {
+        continue;
+      }
+      if (!isVisibility(body[section])) {
+        return c.json({ error: `${section} must be one of: ${VISIBILITY_LEVELS.join(', ')}` }, 400);
+      }
+      changes[section] = body[section];
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return c.json({ error: `Provide at least one of: ${PRIVACY_SECTIONS.join(', ')}` }, 400);
+    }
+
+    const settings = await updatePrivacySettings(c.get('authUser').id, changes);
+
+    return c.json({ message: 'Privacy settings updated successfully', privacy: settings });
+  } catch (error) {
+    console.error('Update privacy settings error:', error);
+    return c.json({ error: 'Failed to update privacy settings' }, 500);
+  }
+});
+
+// ===== ACCOUNT DELETION =====
+
+// Schedule deletion of the signed-in account (password confirmation for local accounts)
+router.delete('/', blockImpersonation, async (c) => {
+  try {
+    const authUser = c.get('authUser');
+    const { password } = await c.req.json().catch(() => ({}));
+
+    const user = await db.select().from(users).where(eq(users.id, authUser.id));
+    if (user.length === 0) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    if (user[0].deletionRequestedAt) {
+      return c.json({
+        message: 'Account deletion is already scheduled',
+        deletionScheduledFor: getDeletionDate(user[0].deletionRequestedAt)
+      });
+    }
+
+    if (user[0].password) {
+      if (!password) {
+        return c.json({ error: 'Password is required to delete your account' }, 400);
+      }
+      if (!(await bcrypt.compare(password, user[0].password))) {
+        return c.json({ error: 'Password is incorrect' }, 401);
+      }
+    }
+
+    const deletionScheduledFor = await scheduleAccountDeletion(authUser.id);
+
+    return c.json({
+      message: `Your account will be deleted in ${DELETION_GRACE_DAYS} days. Sign in and cancel the deletion before then to keep it.`,
+      deletionScheduledFor
+    });
+  } catch (error) {
+    console.error('Delete account error:', error);
+    return c.json({ error: 'Failed to delete account' }, 500);
+  }
+});
+
+// Cancel a scheduled deletion during the grace period
+router.post('/deletion/cancel', blockImpersonation, async (c) => {
+  try {
+    const cancelled = await cancelAccountDeletion(c.get('authUser').id);
+    if (!cancelled) {
+      return c.json({ error: 'No account deletion is scheduled' }, 404);
+    }
+
+    return c.json({ message: 'Account deletion cancelled' });
+  } catch (error) {
+    console.error('Cancel account deletion error:', error);
+    return c.json({ error: 'Failed to cancel account deletion' }, 500);
+  }
+});
+
+export default router;
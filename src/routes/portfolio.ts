@@ -0,0 +1,57 @@
+import { Hono } from 'hono';
+import { etag } from 'hono/etag';
+import { optionalAuth, type AuthEnv } from '../middleware/auth.js';
+import { buildPortfolio, isVisiblePortfolio } from '../services/portfolio.js';
+import { getResumePdf, isResumeTemplate, resumeFilename, RESUME_TEMPLATES } from '../services/resume.js';
+
+const router = new Hono<AuthEnv>();
+
+// Shareable portfolio by username: profile, grouped skills, published projects, completed
+// roadmaps and certificates in one document. Clients can revalidate with If-None-Match.
+router.get('/:username', etag(), optionalAuth(), async (c) => {
+  try {
+    const viewer = c.get('viewer');
+    const portfolio = await buildPortfolio(c.req.param('username'), viewer?.id ?? null);
+
+    if (!portfolio) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    // Signed-in viewers may see sections the public cannot, so only anonymous responses are shared
+    c.header('Cache-Control', viewer ? 'private, no-cache' : 'public, max-age=60');
+    c.header('Vary', 'Authorization');
+
+    return c.json({ portfolio });
+  } catch (error) {
+    console.error('Get portfolio error:', error);
+    return c.json({ error: 'Failed to fetch portfolio' }, 500);
+  }
+});
+
+// Public resume PDF (?template=classic|modern); only available for profiles visible to everyone
+router.get('/:username/resume.pdf', async (c) => {
+  try {
+    const template = c.req.query('template') || 'classic';
+    if (!isResumeTemplate(template)) {
+      return c.json({ error: `template must be one of: ${RESUME_TEMPLATES.join(', ')}` }, 400);
+    }
+
+    const portfolio = await buildPortfolio(c.req.param('username'), null);
+    if (!portfolio || !isVisiblePortfolio(portfolio)) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const pdf = await getResumePdf(portfolio, 'public', template);
+
+    return c.body(pdf, 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${resumeFilename(portfolio.profile)}"`,
+      'Cache-Control': 'public, max-age=300'
+    });
+  } catch (error) {
+    console.error('Generate public resume error:', error);
+    return c.json({ error: 'Failed to generate resume' }, 500);
+  }
+});
+
+export default router;
@@ -1,13 +1,16 @@
 import { Hono } from 'hono';
-import { eq, desc } from 'drizzle-orm';
+import { eq, and, desc } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { projects } from '../db/schema.js';
+import { projects, users } from '../db/schema.js';
 import { deleteFile, uploadFile, generateFileKey } from '../services/s3.js';
+import { getVisibleSections } from '../services/privacy.js';
+import { isTechnologyList } from '../utils/technologies.js';
+import { requireScope, optionalAuth, type AuthEnv } from '../middleware/auth.js';
 
-const router = new Hono();
+const router = new Hono<AuthEnv>();
 
-// Get all projects for a user
-router.get('/user/:userId', async (c) => {
+// Get all projects for a user (drafts and archived projects are only shown to their owner)
+router.get('/user/:userId', optionalAuth('projects:read'), async (c) => {
   try {
     const userId = parseInt(c.req.param('userId'));
     
@@ -15,10 +18,20 @@ router.get('/user/:userId', async (c) => {
       return c.json({ error: 'User ID is required' }, 400);
     }
 
+    const viewerId = c.get('viewer')?.id ?? null;
+    const visible = await getVisibleSections(userId, viewerId);
+    if (!visible) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    if (!visible.projects) {
+      return c.json({ error: 'This user\'s projects are not visible to you' }, 403);
+    }
+
+    const isOwner = viewerId === userId;
     const userProjects = await db
       .select()
       .from(projects)
-      .where(eq(projects.userId, userId))
+      .where(isOwner ? eq(projects.userId, userId) : and(eq(projects.userId, userId), eq(projects.status, 'published')))
       .orderBy(desc(projects.createdAt));
 
     // Parse technologies JSON for each project
@@ -40,7 +53,7 @@ router.get('/user/:userId', async (c) => {
   }
 });
 
-// Get all published projects (public)
+// Get all published projects of users who share their projects publicly
 router.get('/public', async (c) => {
   try {
     const publicProjects = await db
@@ -57,7 +70,14 @@ router.get('/public', async (c) => {
         updatedAt: projects.updatedAt,
       })
       .from(projects)
-      .where(eq(projects.status, 'published'))
+      .innerJoin(users, eq(projects.userId, users.id))
+      .where(
+        and(
+          eq(projects.status, 'published'),
+          eq(users.profileVisibility, 'public'),
+          eq(users.projectsVisibility, 'public')
+        )
+      )
       .orderBy(desc(projects.createdAt));
 
     // Parse technologies JSON for each project
@@ -80,7 +100,7 @@ router.get('/public', async (c) => {
 });
 
 // Get single project
-router.get('/:id', async (c) => {
+router.get('/:id', optionalAuth('projects:read'), async (c) => {
   try {
     const projectId = parseInt(c.req.param('id'));
     
@@ -98,6 +118,15 @@ router.get('/:id', async (c) => {
       return c.json({ error: 'Project not found' }, 404);
     }
 
+    // Unpublished and hidden projects look the same as missing ones to other users
+    const viewerId = c.get('viewer')?.id ?? null;
+    if (project[0].userId !== viewerId) {
+      const visible = await getVisibleSections(project[0].userId, viewerId);
+      if (project[0].status !== 'published' || !visible?.projects) {
+        return c.json({ error: 'Project not found' }, 404);
+      }
+    }
+
     // Parse technologies JSON
     const projectWithParsedTech = {
       ...project[0],
@@ -118,7 +147,7 @@ router.get('/:id', async (c) => {
 });
 
 // Create new project
-router.post('/', async (c) => {
+router.post('/', requireScope('projects:write'), async (c) => {
   try {
     const { 
       title, 
@@ -130,10 +159,20 @@ router.post('/', async (c) => {
       status = 'draft',
       userId 
     } = await c.req.json();
+    const authUser = c.get('authUser');
 
     // Validate required fields
-    if (!title || !userId) {
-      return c.json({ error: 'Title and userId are required' }, 400);
+    if (!title) {
+      return c.json({ error: 'Title is required' }, 400);
+    }
+
+    // Projects can only be created for the signed-in user
+    if (userId !== undefined && parseInt(userId) !== authUser.id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    if (!isTechnologyList(technologies)) {
+      return c.json({ error: 'Technologies must be an array of strings' }, 400);
     }
 
     // Convert technologies array to JSON string
@@ -149,7 +188,7 @@ router.post('/', async (c) => {
         demoUrl,
         githubUrl,
         status,
-        userId: parseInt(userId),
+        userId: authUser.id,
       })
       .returning();
 
@@ -173,7 +212,7 @@ router.post('/', async (c) => {
 });
 
 // Update project
-router.put('/:id', async (c) => {
+router.put('/:id', requireScope('projects:write'), async (c) => {
   try {
     const projectId = parseInt(c.req.param('id'));
     const { 
@@ -190,6 +229,10 @@ router.put('/:id', async (c) => {
       return c.json({ error: 'Project ID is required' }, 400);
     }
 
+    if (technologies !== undefined && !isTechnologyList(technologies)) {
+      return c.json({ error: 'Technologies must be an array of strings' }, 400);
+    }
+
     // Check if project exists
     const existingProject = await db
       .select()
@@ -201,6 +244,10 @@ router.put('/:id', async (c) => {
       return c.json({ error: 'Project not found' }, 404);
     }
 
+    if (existingProject[0].userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     // Prepare update data
     const updateData: any = {
       updatedAt: new Date(),
@@ -240,7 +287,7 @@ router.put('/:id', async (c) => {
 });
 
 // Upload project image
-router.post('/:id/upload-image', async (c) => {
+router.post('/:id/upload-image', requireScope('projects:write'), async (c) => {
   try {
     const projectId = parseInt(c.req.param('id'));
     
@@ -259,6 +306,10 @@ router.post('/:id/upload-image', async (c) => {
       return c.json({ error: 'Project not found' }, 404);
     }
 
+    if (existingProject[0].userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     const project = existingProject[0];
 
     // Get file from request
@@ -324,7 +375,7 @@ router.post('/:id/upload-image', async (c) => {
 });
 
 // Delete project
-router.delete('/:id', async (c) => {
+router.delete('/:id', requireScope('projects:write'), async (c) => {
   try {
     const projectId = parseInt(c.req.param('id'));
     
@@ -343,6 +394,10 @@ router.delete('/:id', async (c) => {
       return c.json({ error: 'Project not found' }, 404);
     }
 
+    if (existingProject[0].userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     const project = existingProject[0];
 
     // Delete associated image from S3 if exists
@@ -1,4 +1,4 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { db } from '../db/index.js';
 import { 
   skillRoadmaps, 
@@ -12,8 +12,40 @@ import {
 } from '../db/schema.js';
 import { eq, and, desc, asc } from 'drizzle-orm';
 import { uploadFile } from '../services/s3.js';
+import { getVisibleSections } from '../services/privacy.js';
+import { requireAuth, optionalAuth, type AuthEnv } from '../middleware/auth.js';
 
-const roadmaps = new Hono();
+const roadmaps = new Hono<AuthEnv>();
+
+// Look up the user who owns a task progress entry
+async function getTaskProgressOwnerId(taskProgressId: number): Promise<number | null> {
+  const [progress] = await db
+    .select({ userId: userTaskProgress.userId })
+    .from(userTaskProgress)
+    .where(eq(userTaskProgress.id, taskProgressId))
+    .limit(1);
+
+  return progress ? progress.userId : null;
+}
+
+// Error response when the viewer may not see the user's roadmap progress, null otherwise
+async function checkRoadmapsVisible(c: Context<AuthEnv>, userId: number) {
+  const visible = isNaN(userId) ? null : await getVisibleSections(userId, c.get('viewer')?.id ?? null);
+
+  if (!visible) {
+    return c.json({
+      success: false,
+      message: 'User not found'
+    }, 404);
+  }
+  if (!visible.roadmaps) {
+    return c.json({
+      success: false,
+      message: 'This user\'s roadmap progress is not visible to you'
+    }, 403);
+  }
+  return null;
+}
 
 // Get all available roadmaps
 roadmaps.get('/', async (c) => {
@@ -78,10 +110,18 @@ roadmaps.get('/:id', async (c) => {
 });
 
 // Start a roadmap for a user
-roadmaps.post('/:id/start', async (c) => {
+roadmaps.post('/:id/start', requireAuth, async (c) => {
   try {
     const id = c.req.param('id');
-    const { userId } = await c.req.json();
+    const body = await c.req.json().catch(() => ({}));
+    const userId = c.get('authUser').id;
+
+    if (body.userId !== undefined && body.userId !== userId) {
+      return c.json({
+        success: false,
+        message: 'Forbidden'
+      }, 403);
+    }
 
     // Check if user already has this roadmap
     const existing = await db
@@ -139,10 +179,15 @@ roadmaps.post('/:id/start', async (c) => {
 });
 
 // Get user's roadmap progress
-roadmaps.get('/users/:userId', async (c) => {
+roadmaps.get('/users/:userId', optionalAuth(), async (c) => {
   try {
     const userId = c.req.param('userId');
 
+    const visibilityError = await checkRoadmapsVisible(c, parseInt(userId));
+    if (visibilityError) {
+      return visibilityError;
+    }
+
     const userRoadmapsData = await db
       .select({
         id: userRoadmaps.id,
@@ -202,11 +247,16 @@ roadmaps.get('/users/:userId', async (c) => {
 });
 
 // Get detailed progress for a specific user roadmap
-roadmaps.get('/users/:userId/roadmaps/:roadmapId/progress', async (c) => {
+roadmaps.get('/users/:userId/roadmaps/:roadmapId/progress', optionalAuth(), async (c) => {
   try {
     const userId = c.req.param('userId');
     const roadmapId = c.req.param('roadmapId');
 
+    const visibilityError = await checkRoadmapsVisible(c, parseInt(userId));
+    if (visibilityError) {
+      return visibilityError;
+    }
+
     // Get user roadmap
     const [userRoadmap] = await db
       .select()
@@ -285,11 +335,26 @@ roadmaps.get('/users/:userId/roadmaps/:roadmapId/progress', async (c) => {
 });
 
 // Update task status
-roadmaps.put('/task-progress/:id/status', async (c) => {
+roadmaps.put('/task-progress/:id/status', requireAuth, async (c) => {
   try {
     const id = c.req.param('id');
     const { status } = await c.req.json();
 
+    const ownerId = await getTaskProgressOwnerId(parseInt(id));
+    if (ownerId === null) {
+      return c.json({
+        success: false,
+        message: 'Task progress not found'
+      }, 404);
+    }
+
+    if (ownerId !== c.get('authUser').id) {
+      return c.json({
+        success: false,
+        message: 'Forbidden'
+      }, 403);
+    }
+
     const updateData: any = { status };
     
     if (status === 'in_progress') {
@@ -317,11 +382,26 @@ roadmaps.put('/task-progress/:id/status', async (c) => {
 });
 
 // Add project for a task
-roadmaps.post('/task-progress/:id/project', async (c) => {
+roadmaps.post('/task-progress/:id/project', requireAuth, async (c) => {
   try {
     const id = c.req.param('id');
     const { title, description, githubUrl, demoUrl, technologies } = await c.req.json();
 
+    const ownerId = await getTaskProgressOwnerId(parseInt(id));
+    if (ownerId === null) {
+      return c.json({
+        success: false,
+        message: 'Task progress not found'
+      }, 404);
+    }
+
+    if (ownerId !== c.get('authUser').id) {
+      return c.json({
+        success: false,
+        message: 'Forbidden'
+      }, 403);
+    }
+
     const [project] = await db
       .insert(taskProjects)
       .values({
@@ -348,11 +428,26 @@ roadmaps.post('/task-progress/:id/project', async (c) => {
 });
 
 // Link existing project to a task
-roadmaps.post('/task-progress/:id/link-project', async (c) => {
+roadmaps.post('/task-progress/:id/link-project', requireAuth, async (c) => {
   try {
     const id = c.req.param('id');
     const { projectId } = await c.req.json();
 
+    const ownerId = await getTaskProgressOwnerId(parseInt(id));
+    if (ownerId === null) {
+      return c.json({
+        success: false,
+        message: 'Task progress not found'
+      }, 404);
+    }
+
+    if (ownerId !== c.get('authUser').id) {
+      return c.json({
+        success: false,
+        message: 'Forbidden'
+      }, 403);
+    }
+
     // Get the existing project details from projects table
     const existingProject = await db
       .select()
@@ -369,6 +464,13 @@ roadmaps.post('/task-progress/:id/link-project', async (c) => {
 
     const project = existingProject[0];
 
+    if (project.userId !== c.get('authUser').id) {
+      return c.json({
+        success: false,
+        message: 'Forbidden'
+      }, 403);
+    }
+
     // Create a new task project record linking to the existing project
     const [taskProject] = await db
       .insert(taskProjects)
@@ -396,11 +498,31 @@ roadmaps.post('/task-progress/:id/link-project', async (c) => {
 });
 
 // Submit final project
-roadmaps.post('/user-roadmaps/:id/final-project', async (c) => {
+roadmaps.post('/user-roadmaps/:id/final-project', requireAuth, async (c) => {
   try {
     const id = c.req.param('id');
     const { title, description, githubUrl, demoUrl, technologies } = await c.req.json();
 
+    const [userRoadmap] = await db
+      .select({ userId: userRoadmaps.userId })
+      .from(userRoadmaps)
+      .where(eq(userRoadmaps.id, parseInt(id)))
+      .limit(1);
+
+    if (!userRoadmap) {
+      return c.json({
+        success: false,
+        message: 'User roadmap not found'
+      }, 404);
+    }
+
+    if (userRoadmap.userId !== c.get('authUser').id) {
+      return c.json({
+        success: false,
+        message: 'Forbidden'
+      }, 403);
+    }
+
     const [finalProject] = await db
       .insert(roadmapFinalProjects)
       .values({
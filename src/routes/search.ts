@@ -0,0 +1,137 @@
+import { Hono } from 'hono';
+import { type AuthEnv } from '../middleware/auth.js';
+import {
+  buildPrefixQuery,
+  isSearchType,
+  searchUsers,
+  searchProjects,
+  searchSkills,
+  searchPeople,
+  SEARCH_TYPES,
+  type PeopleFilters
+} from '../services/search.js';
+
+const router = new Hono<AuthEnv>();
+
+const MAX_PAGE_SIZE = 50;
+const MAX_FILTER_VALUES = 10;
+
+function parseLevel(value: string | undefined): number | null {
+  const level = Number(value);
+  return Number.isInteger(level) && level >= 1 && level <= 5 ? level : null;
+}
+
+// Repeated query params (?skill=a&skill=b), trimmed, deduplicated and capped
+function filterValues(values: string[] | undefined): string[] {
+  const cleaned = (values || []).map((value) => value.trim()).filter(Boolean);
+  return [...new Set(cleaned)].slice(0, MAX_FILTER_VALUES);
+}
+
+// Full-text search over people, projects and skills (?q=&type=users|projects|skills|all&page=&limit=).
+// type defaults to users, which keeps the response shape of the old user search.
+router.get('/', async (c) => {
+  try {
+    const q = c.req.query('q') || '';
+    const type = c.req.query('type') || 'users';
+    const page = Math.max(parseInt(c.req.query('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '10') || 10, 1), MAX_PAGE_SIZE);
+
+    if (!isSearchType(type)) {
+      return c.json({ error: `type must be one of: ${SEARCH_TYPES.join(', ')}` }, 400);
+    }
+
+    const queryText = q.trim().length >= 2 ? buildPrefixQuery(q) : null;
+    const pageOptions = { limit, offset: (page - 1) * limit };
+    const includes = (section: 'users' | 'projects' | 'skills') => queryText !== null && (type === 'all' || type === section);
+
+    const userResults = includes('users') ? await searchUsers(queryText!, pageOptions) : null;
+    const projectResults = includes('projects') ? await searchProjects(queryText!, pageOptions) : null;
+    const skillResults = includes('skills') ? await searchSkills(queryText!, pageOptions) : null;
+
+    const totals = {
+      users: userResults?.total ?? 0,
+      projects: projectResults?.total ?? 0,
+      skills: skillResults?.total ?? 0
+    };
+
+    // With type=all every section is paged the same way, so paging continues while any section has more
+    const total = type === 'all' ? Math.max(totals.users, totals.projects, totals.skills) : totals[type];
+    const totalPages = Math.ceil(total / limit);
+
+    return c.json({
+      query: q,
+      type,
+      ...(type === 'all' || type === 'users' ? { users: userResults?.results ?? [] } : {}),
+      ...(type === 'all' || type === 'projects' ? { projects: projectResults?.results ?? [] } : {}),
+      ...(type === 'all' || type === 'skills' ? { skills: skillResults?.results ?? [] } : {}),
+      totals,
+      total,
+      page,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    });
+  } catch (error) {
+    console.error('Search error:', error);
+    return c.json({ error: 'Search failed' }, 500);
+  }
+});
+
+// Talent search (?skill=react:4&category=frontend&minLevel=3&roadmap=12&technology=docker&openToWork=true&page=&limit=).
+// Every filter must match; skill takes an optional minimum level after a colon, otherwise minLevel applies.
+// Only active users with a public profile are listed, and each filter only looks at sections they made public.
+router.get('/people', async (c) => {
+  try {
+    const page = Math.max(parseInt(c.req.query('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '10') || 10, 1), MAX_PAGE_SIZE);
+
+    const minLevelParam = c.req.query('minLevel');
+    const minLevel = minLevelParam === undefined ? 1 : parseLevel(minLevelParam);
+    if (minLevel === null) {
+      return c.json({ error: 'minLevel must be an integer between 1 and 5' }, 400);
+    }
+
+    const filters: PeopleFilters = {
+      skills: [],
+      categories: filterValues(c.req.queries('category')),
+      minLevel,
+      roadmaps: filterValues(c.req.queries('roadmap')).map((roadmap) => (/^\d+$/.test(roadmap) ? parseInt(roadmap) : roadmap)),
+      technologies: filterValues(c.req.queries('technology')),
+      openToWork: c.req.query('openToWork') === 'true'
+    };
+
+    for (const value of filterValues(c.req.queries('skill'))) {
+      const separator = value.lastIndexOf(':');
+      if (separator === -1) {
+        filters.skills.push({ name: value, minLevel });
+        continue;
+      }
+
+      const level = parseLevel(value.slice(separator + 1));
+      const name = value.slice(0, separator).trim();
+      if (level === null || !name) {
+        return c.json({ error: `Invalid skill filter "${value}", expected name or name:level (1-5)` }, 400);
+      }
+      filters.skills.push({ name, minLevel: level });
+    }
+
+    const { results, total, facets } = await searchPeople(filters, { limit, offset: (page - 1) * limit });
+    const totalPages = Math.ceil(total / limit);
+
+    return c.json({
+      filters,
+      people: results,
+      facets,
+      total,
+      page,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    });
+  } catch (error) {
+    console.error('People search error:', error);
+    return c.json({ error: 'People search failed' }, 500);
+  }
+});
+
+export default router;
@@ -2,11 +2,13 @@ import { Hono } from 'hono';
 import { eq, desc } from 'drizzle-orm';
 import { db } from '../db/index.js';
 import { skills } from '../db/schema.js';
+import { getVisibleSections } from '../services/privacy.js';
+import { requireScope, optionalAuth, type AuthEnv } from '../middleware/auth.js';
 
-const router = new Hono();
+const router = new Hono<AuthEnv>();
 
 // Get all skills for a user
-router.get('/user/:userId', async (c) => {
+router.get('/user/:userId', optionalAuth('skills:read'), async (c) => {
   try {
     const userId = parseInt(c.req.param('userId'));
     
@@ -14,6 +16,14 @@ router.get('/user/:userId', async (c) => {
       return c.json({ error: 'User ID is required' }, 400);
     }
 
+    const visible = await getVisibleSections(userId, c.get('viewer')?.id ?? null);
+    if (!visible) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    if (!visible.skills) {
+      return c.json({ error: 'This user\'s skills are not visible to you' }, 403);
+    }
+
     const userSkills = await db
       .select()
       .from(skills)
@@ -34,7 +44,7 @@ router.get('/user/:userId', async (c) => {
 });
 
 // Get skills grouped by category for a user
-router.get('/user/:userId/grouped', async (c) => {
+router.get('/user/:userId/grouped', optionalAuth('skills:read'), async (c) => {
   try {
     const userId = parseInt(c.req.param('userId'));
     
@@ -42,6 +52,14 @@ router.get('/user/:userId/grouped', async (c) => {
       return c.json({ error: 'User ID is required' }, 400);
     }
 
+    const visible = await getVisibleSections(userId, c.get('viewer')?.id ?? null);
+    if (!visible) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    if (!visible.skills) {
+      return c.json({ error: 'This user\'s skills are not visible to you' }, 403);
+    }
+
     const userSkills = await db
       .select()
       .from(skills)
@@ -71,7 +89,7 @@ router.get('/user/:userId/grouped', async (c) => {
 });
 
 // Get single skill
-router.get('/:id', async (c) => {
+router.get('/:id', optionalAuth('skills:read'), async (c) => {
   try {
     const skillId = parseInt(c.req.param('id'));
     
@@ -89,6 +107,11 @@ router.get('/:id', async (c) => {
       return c.json({ error: 'Skill not found' }, 404);
     }
 
+    const visible = await getVisibleSections(skill[0].userId, c.get('viewer')?.id ?? null);
+    if (!visible?.skills) {
+      return c.json({ error: 'Skill not found' }, 404);
+    }
+
     return c.json({
       message: 'Skill retrieved successfully',
       data: skill[0],
@@ -103,7 +126,7 @@ router.get('/:id', async (c) => {
 });
 
 // Create new skill
-router.post('/', async (c) => {
+router.post('/', requireScope('skills:write'), async (c) => {
   try {
     const { 
       name, 
@@ -114,10 +137,16 @@ router.post('/', async (c) => {
       color = '#3B82F6',
       userId 
     } = await c.req.json();
+    const authUser = c.get('authUser');
 
     // Validate required fields
-    if (!name || !category || !userId) {
-      return c.json({ error: 'Name, category, and userId are required' }, 400);
+    if (!name || !category) {
+      return c.json({ error: 'Name and category are required' }, 400);
+    }
+
+    // Skills can only be created for the signed-in user
+    if (userId !== undefined && parseInt(userId) !== authUser.id) {
+      return c.json({ error: 'Forbidden' }, 403);
     }
 
     // Validate level range
@@ -134,7 +163,7 @@ router.post('/', async (c) => {
         description,
         icon,
         color,
-        userId: parseInt(userId),
+        userId: authUser.id,
       })
       .returning();
 
@@ -152,7 +181,7 @@ router.post('/', async (c) => {
 });
 
 // Update skill
-router.put('/:id', async (c) => {
+router.put('/:id', requireScope('skills:write'), async (c) => {
   try {
     const skillId = parseInt(c.req.param('id'));
     const { 
@@ -179,6 +208,10 @@ router.put('/:id', async (c) => {
       return c.json({ error: 'Skill not found' }, 404);
     }
 
+    if (existingSkill[0].userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     // Prepare update data
     const updateData: any = {
       updatedAt: new Date(),
@@ -216,7 +249,7 @@ router.put('/:id', async (c) => {
 });
 
 // Delete skill
-router.delete('/:id', async (c) => {
+router.delete('/:id', requireScope('skills:write'), async (c) => {
   try {
     const skillId = parseInt(c.req.param('id'));
     
@@ -235,6 +268,10 @@ router.delete('/:id', async (c) => {
       return c.json({ error: 'Skill not found' }, 404);
     }
 
+    if (existingSkill[0].userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     // Delete skill from database
     await db.delete(skills).where(eq(skills.id, skillId));
 
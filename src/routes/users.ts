@@ -1,256 +1,1249 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import bcrypt from 'bcryptjs';
-import { eq, or, sql } from 'drizzle-orm';
+import { eq, or, and, gt, isNull, isNotNull, sql } from 'drizzle-orm';
+import { createHash, randomBytes } from 'crypto';
 import { db } from '../db/index.js';
-import { users, connectionRequests, connections } from '../db/schema.js';
-import { getGoogleAuthUrl, getGoogleUserInfo, generateJWT } from '../config/google-auth.js';
+import { users, connectionRequests, connections, passwordResetTokens, userIdentities } from '../db/schema.js';
+import {
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken
+} from '../config/jwt.js';
 import { uploadFile, deleteFile, generateFileKey, getFileUrl } from '../services/s3.js';
+import { sendMail } from '../services/mailer.js';
 import { checkAdminRole } from '../middleware/admin.js';
+import { requireAuth, requireVerifiedEmail, blockImpersonation, optionalAuth, type AuthEnv } from '../middleware/auth.js';
+import { createSession, rotateRefreshToken, revokeSession, revokeAllSessions, RefreshTokenError, type SessionMeta } from '../services/sessions.js';
+import { endImpersonation } from '../services/impersonation.js';
+import { validatePassword, passwordPolicyError, hashPassword, needsRehash, PASSWORD_POLICY } from '../services/password-policy.js';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp.js';
+import { redis } from '../utils/redis.js';
+import { getOAuthProvider, OAUTH_PROVIDER_PATTERN, type OAuthProfile } from '../config/oauth-providers.js';
+import { createOAuthState, consumeOAuthState } from '../services/oauth-state.js';
+import {
+  findUserIdByIdentity,
+  wasIdentityUnlinked,
+  linkIdentity,
+  unlinkIdentity,
+  listIdentities,
+  countLoginMethods
+} from '../services/identities.js';
+import { getRetryAfter, recordFailure, clearFailures, loginThrottleKeys, type ThrottleKey } from '../services/login-throttle.js';
+import { getClientIp } from '../utils/client-ip.js';
+import { isReservedUsername } from '../services/account-deletion.js';
+import {
+  ProfileValidationError,
+  professionalProfileColumns,
+  validateProfileDetails,
+  validateExperience,
+  validateEducation,
+  listExperience,
+  listEducation,
+  addExperience,
+  updateExperience,
+  deleteExperience,
+  addEducation,
+  updateEducation,
+  deleteEducation
+} from '../services/professional-profile.js';
+import { getVisibleSections } from '../services/privacy.js';
+import {
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken,
+  ACCESS_TOKEN_SCOPES,
+  MAX_ACCESS_TOKEN_DAYS,
+  type AccessTokenScope
+} from '../services/access-tokens.js';
+
+const router = new Hono<AuthEnv>();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Generate one-time recovery codes; only their hashes are stored
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map((code) => hashToken(code)) };
+}
+
+// Record a TOTP time step as used unless it is not newer than the last one
+const TOTP_STEP_SCRIPT = `
+local last = redis.call('GET', KEYS[1])
+if last and tonumber(ARGV[1]) <= tonumber(last) then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return 1
+`;
+
+// Check a TOTP code or recovery code for a user with 2FA, consuming recovery codes and rejecting replays
+async function verifySecondFactor(
+  user: typeof users.$inferSelect,
+  code?: string,
+  recoveryCode?: string
+): Promise<boolean> {
+  if (!user.totpSecret) {
+    return false;
+  }
+
+  if (code) {
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === null) {
+      return false;
+    }
+
+    // Each code is accepted once: the step must be newer than the last one used, checked and recorded atomically
+    const accepted = await redis.eval(TOTP_STEP_SCRIPT, {
+      keys: [`auth:2fa:${user.id}:last-step`],
+      arguments: [String(step), '120'],
+    });
+    return accepted === 1;
+  }
+
+  if (recoveryCode) {
+    const presented = hashToken(String(recoveryCode).trim().toLowerCase());
+
+    // Remove the code only if it is still there, so two requests racing with it cannot both succeed
+    const consumed = await db
+      .update(users)
+      .set({ totpRecoveryCodes: sql`(${users.totpRecoveryCodes}::jsonb - ${presented}::text)::text` })
+      .where(
+        and(
+          eq(users.id, user.id),
+          sql`${users.totpRecoveryCodes}::jsonb @> jsonb_build_array(${presented}::text)`
+        )
+      )
+      .returning({ id: users.id });
+    return consumed.length > 0;
+  }
+
+  return false;
+}
+
+// Device details recorded with a new or refreshed session
+function getSessionMeta(c: Context<AuthEnv>): SessionMeta {
+  return {
+    userAgent: c.req.header('User-Agent'),
+    ipAddress: getClientIp(c),
+  };
+}
+
+// User fields returned after a successful login
+function toLoginUserData(user: typeof users.$inferSelect) {
+  return {
+    id: user.id,
+    name: user.name,
+    lastname: user.lastname,
+    username: user.username,
+    email: user.email,
+    emailVerifiedAt: user.emailVerifiedAt,
+    authProvider: user.authProvider,
+    profilePicture: user.profilePicture,
+    profilePictureKey: user.profilePictureKey,
+    googleProfilePicture: user.googleProfilePicture,
+    twoFactorEnabled: user.totpEnabledAt !== null,
+    deletionRequestedAt: user.deletionRequestedAt, // Lets the client offer to cancel a pending deletion
+  };
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Reject an attempt while its keys are locked out
+function tooManyAttempts(c: Context<AuthEnv>, retryAfter: number) {
+  c.header('Retry-After', String(retryAfter));
+  return c.json({ error: 'Too many failed attempts. Please try again later.', retryAfter }, 429);
+}
+
+// Count a failed attempt and tell the client how long to back off
+async function rejectAttempt(c: Context<AuthEnv>, keys: ThrottleKey[], error: string) {
+  const retryAfter = await recordFailure(keys);
+  if (retryAfter > 0) {
+    c.header('Retry-After', String(retryAfter));
+  }
+  return c.json({ error }, 401);
+}
+
+// Email a verification link for the user's current address
+async function sendVerificationEmail(user: { id: number; name: string; email: string }) {
+  const token = generateEmailVerificationToken(user.id, user.email);
+  const verifyUrl = `${FRONTEND_URL}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your MySkl email address',
+    text: `Hi ${user.name},\n\nPlease confirm your email address by opening the link below. It expires in 24 hours.\n\n${verifyUrl}`,
+  });
+}
+
+// Find or create the local user for an OAuth profile and remember the identity
+async function findOrCreateOAuthUser(providerName: string, profile: OAuthProfile) {
+  const isGoogle = providerName === 'google';
+
+  // Prefer an explicitly linked identity, then legacy Google IDs, then an email both sides have verified
+  let userId = await findUserIdByIdentity(providerName, profile.providerUserId);
+  if (!userId && isGoogle) {
+    const legacyUser = await db.select({ id: users.id }).from(users).where(eq(users.googleId, profile.providerUserId));
+    userId = legacyUser[0]?.id ?? null;
+  }
+  if (!userId && profile.email && profile.emailVerified) {
+    // An unverified address may have been registered by someone else, and an identity the user
+    // unlinked stays unlinked; both can still be linked explicitly from a signed-in session
+    const emailUser = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.email, profile.email), isNotNull(users.emailVerifiedAt)));
+    if (emailUser.length > 0 && !(await wasIdentityUnlinked(emailUser[0].id, providerName, profile.providerUserId))) {
+      userId = emailUser[0].id;
+    }
+  }
+
+  let user: typeof users.$inferSelect;
+
+  if (userId) {
+    const existingUser = await db.select().from(users).where(eq(users.id, userId));
+    user = existingUser[0];
+
+    const updateData: any = {};
+
+    if (isGoogle) {
+      // Update existing user with Google info if not already set
+      if (!user.googleId) {
+        updateData.googleId = profile.providerUserId;
+        updateData.authProvider = 'google';
+        updateData.profilePicture = profile.avatarUrl;
+        updateData.googleProfilePicture = profile.avatarUrl;
+      } else if (profile.avatarUrl && user.googleProfilePicture !== profile.avatarUrl) {
+        // Update Google profile picture if it has changed
+        updateData.googleProfilePicture = profile.avatarUrl;
+
+        // If user doesn't have a custom profile picture, also update the main profile picture
+        if (!user.profilePictureKey) {
+          updateData.profilePicture = profile.avatarUrl;
+        }
+      }
+    } else if (!user.profilePicture && profile.avatarUrl) {
+      updateData.profilePicture = profile.avatarUrl;
+    }
+
+    // The provider has already verified this address
+    if (!user.emailVerifiedAt && user.email && user.email === profile.email && profile.emailVerified) {
+      updateData.emailVerifiedAt = new Date();
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      const updatedUser = await db
+        .update(users)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(users.id, user.id))
+        .returning();
+      user = updatedUser[0];
+    }
+  } else {
+    // Only claim the email if no other account already uses it
+    let email = profile.email;
+    if (email) {
+      const emailOwner = await db.select({ id: users.id }).from(users).where(eq(users.email, email));
+      if (emailOwner.length > 0) {
+        email = null;
+      }
+    }
+
+    // Create new user
+    const newUser = await db
+      .insert(users)
+      .values({
+        name: profile.firstName,
+        lastname: profile.lastName,
+        email,
+        emailVerifiedAt: email && profile.emailVerified ? new Date() : null,
+        googleId: isGoogle ? profile.providerUserId : null,
+        authProvider: providerName,
+        profilePicture: profile.avatarUrl,
+        googleProfilePicture: isGoogle ? profile.avatarUrl : null,
+      })
+      .returning();
+
+    user = newUser[0];
+  }
+
+  await linkIdentity(user.id, providerName, profile.providerUserId, profile.email);
+
+  return user;
+}
+
+// OAuth - Get auth URL (state and PKCE verifier are kept in Redis)
+router.get(`/auth/:provider{${OAUTH_PROVIDER_PATTERN}}`, async (c) => {
+  const provider = getOAuthProvider(c.req.param('provider'))!;
+
+  if (!provider.isConfigured()) {
+    return c.json({ error: `${provider.displayName} OAuth not configured` }, 500);
+  }
+
+  try {
+    const { state, codeChallenge } = await createOAuthState({ provider: provider.name, mode: 'login' });
+    const authUrl = provider.getAuthorizeUrl(state, codeChallenge);
+    return c.json({ authUrl, state });
+  } catch (error) {
+    console.error('OAuth auth URL error:', error);
+    return c.json({ error: 'Failed to start OAuth login' }, 500);
+  }
+});
+
+// OAuth - Handle callback
+router.post(`/auth/:provider{${OAUTH_PROVIDER_PATTERN}}/callback`, async (c) => {
+  const provider = getOAuthProvider(c.req.param('provider'))!;
+
+  try {
+    const { code, state } = await c.req.json();
+
+    if (!code || !state) {
+      return c.json({ error: 'Authorization code and state are required' }, 400);
+    }
+
+    // The state must have been issued by us, for this provider, and not used before
+    const stateRecord = await consumeOAuthState(state);
+    if (!stateRecord || stateRecord.provider !== provider.name || stateRecord.mode !== 'login') {
+      return c.json({ error: 'Invalid or expired OAuth state' }, 400);
+    }
+
+    const accessToken = await provider.exchangeCode(code, stateRecord.codeVerifier);
+    const profile = await provider.fetchProfile(accessToken);
+
+    const user = await findOrCreateOAuthUser(provider.name, profile);
+
+    if (user.isActive === false) {
+      return c.json({ error: 'Account is inactive' }, 403);
+    }
+
+    // Accounts with 2FA finish signing in through /auth/2fa/verify
+    if (user.totpEnabledAt) {
+      return c.json({
+        message: 'Two-factor authentication required',
+        requiresTwoFactor: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id)
+      });
+    }
+
+    // Start a session and issue access/refresh tokens
+    const { token, refreshToken } = await createSession(user, getSessionMeta(c));
+
+    return c.json({
+      message: `${provider.displayName} login successful`,
+      user: toLoginUserData(user),
+      token,
+      refreshToken
+    });
+
+  } catch (error) {
+    console.error(`${provider.displayName} auth callback error:`, error);
+    return c.json({ error: `${provider.displayName} authentication failed` }, 500);
+  }
+});
+
+// Password requirements, so clients can validate before submitting
+router.get('/auth/password-policy', (c) => {
+  return c.json({
+    minLength: PASSWORD_POLICY.minLength,
+    maxLength: PASSWORD_POLICY.maxLength,
+    minCharacterClasses: PASSWORD_POLICY.minCharacterClasses,
+    rejectCommon: PASSWORD_POLICY.rejectCommon,
+    rejectUsername: true
+  });
+});
+
+// Register endpoint
+router.post('/register', async (c) => {
+  try {
+    const { name, lastname, username, password, email } = await c.req.json();
+
+    // Validate required fields
+    if (!name || !lastname || !username || !password) {
+      return c.json({ error: 'All fields are required' }, 400);
+    }
+
+    // Email is optional, but must be valid when given
+    const normalizedEmail = email ? email.trim().toLowerCase() : null;
+    if (normalizedEmail && !EMAIL_REGEX.test(normalizedEmail)) {
+      return c.json({ error: 'Invalid email format' }, 400);
+    }
+
+    const passwordViolations = validatePassword(password, { username, email: normalizedEmail });
+    if (passwordViolations.length > 0) {
+      return c.json(passwordPolicyError(passwordViolations), 400);
+    }
+
+    if (isReservedUsername(String(username))) {
+      return c.json({ error: 'Username is not available' }, 409);
+    }
+
+    // Check if username already exists
+    const existingUser = await db.select().from(users).where(eq(users.username, username));
+    if (existingUser.length > 0) {
+      return c.json({ error: 'Username already exists' }, 409);
+    }
+
+    // Check if email already exists
+    if (normalizedEmail) {
+      const existingEmail = await db.select().from(users).where(eq(users.email, normalizedEmail));
+      if (existingEmail.length > 0) {
+        return c.json({ error: 'Email already exists' }, 409);
+      }
+    }
+
+    // Hash password
+    const hashedPassword = await hashPassword(password);
+
+    // Create user
+    const newUser = await db.insert(users).values({
+      name,
+      lastname,
+      username,
+      email: normalizedEmail,
+      password: hashedPassword,
+    }).returning({
+      id: users.id,
+      name: users.name,
+      lastname: users.lastname,
+      username: users.username,
+      email: users.email,
+      emailVerifiedAt: users.emailVerifiedAt,
+      authProvider: users.authProvider,
+      profilePicture: users.profilePicture,
+      profilePictureKey: users.profilePictureKey,
+      googleProfilePicture: users.googleProfilePicture,
+      createdAt: users.createdAt,
+    });
+
+    if (normalizedEmail) {
+      try {
+        await sendVerificationEmail({ id: newUser[0].id, name, email: normalizedEmail });
+      } catch (error) {
+        console.warn('Failed to send verification email:', error);
+      }
+    }
+
+    return c.json({ 
+      message: 'User registered successfully', 
+      user: newUser[0] 
+    }, 201);
+  } catch (error) {
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Login endpoint
+router.post('/login', async (c) => {
+  try {
+    const { username, password } = await c.req.json();
+
+    // Validate required fields
+    if (!username || !password) {
+      return c.json({ error: 'Username and password are required' }, 400);
+    }
+
+    // Back off repeated failures per username and per client IP
+    const throttleKeys = loginThrottleKeys(String(username), getClientIp(c));
+    const retryAfter = await getRetryAfter(throttleKeys);
+    if (retryAfter > 0) {
+      return tooManyAttempts(c, retryAfter);
+    }
+
+    // Find user by username
+    const user = await db.select().from(users).where(eq(users.username, username));
+    if (user.length === 0) {
+      return rejectAttempt(c, throttleKeys, 'Invalid credentials');
+    }
+
+    // Check if user has a password (for non-OAuth users)
+    if (!user[0].password) {
+      return rejectAttempt(c, throttleKeys, 'Invalid credentials');
+    }
+
+    // Verify password
+    const isPasswordValid = await bcrypt.compare(password, user[0].password);
+    if (!isPasswordValid) {
+      return rejectAttempt(c, throttleKeys, 'Invalid credentials');
+    }
+
+    if (user[0].isActive === false) {
+      return c.json({ error: 'Account is inactive' }, 403);
+    }
+
+    // The IP counter is kept so one valid account cannot reset it between guesses
+    await clearFailures(throttleKeys.filter((key) => key.scope === 'user'));
+
+    // Upgrade hashes made with an older bcrypt cost while we have the plain password
+    if (needsRehash(user[0].password)) {
+      await db
+        .update(users)
+        .set({ password: await hashPassword(password) })
+        .where(eq(users.id, user[0].id));
+    }
+
+    // With 2FA enabled, the password only earns a short-lived challenge token
+    if (user[0].totpEnabledAt) {
+      return c.json({
+        message: 'Two-factor authentication required',
+        requiresTwoFactor: true,
+        challengeToken: generateTwoFactorChallengeToken(user[0].id)
+      });
+    }
+
+    // Start a session and issue access/refresh tokens
+    const { token, refreshToken } = await createSession(user[0], getSessionMeta(c));
+
+    // Return user data (without password)
+    return c.json({ 
+      message: 'Login successful', 
+      user: toLoginUserData(user[0]),
+      token,
+      refreshToken
+    });
+  } catch (error) {
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Complete a two-factor login with a TOTP or recovery code
+router.post('/auth/2fa/verify', async (c) => {
+  try {
+    const { challengeToken, code, recoveryCode } = await c.req.json();
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return c.json({ error: 'Challenge token and code are required' }, 400);
+    }
+
+    const challenge = verifyTwoFactorChallengeToken(challengeToken);
+    if (!challenge) {
+      return c.json({ error: 'Invalid or expired challenge token' }, 401);
+    }
+
+    const user = await db.select().from(users).where(eq(users.id, challenge.id));
+    if (user.length === 0 || !user[0].totpEnabledAt) {
+      return c.json({ error: 'Invalid or expired challenge token' }, 401);
+    }
+
+    // Admin sign-ins finish here too, so second-factor guesses are throttled like passwords
+    const throttleKeys: ThrottleKey[] = [
+      { scope: '2fa', identifier: String(user[0].id) },
+      { scope: 'ip', identifier: getClientIp(c) },
+    ];
+    const retryAfter = await getRetryAfter(throttleKeys);
+    if (retryAfter > 0) {
+      return tooManyAttempts(c, retryAfter);
+    }
+
+    const isCodeValid = await verifySecondFactor(user[0], code, recoveryCode);
+    if (!isCodeValid) {
+      return rejectAttempt(c, throttleKeys, 'Invalid two-factor code');
+    }
+    await clearFailures([throttleKeys[0]]);
+
+    if (user[0].isActive === false) {
+      return c.json({ error: 'Account is inactive' }, 403);
+    }
+
+    const { token, refreshToken } = await createSession(user[0], getSessionMeta(c));
+
+    return c.json({
+      message: 'Login successful',
+      user: toLoginUserData(user[0]),
+      token,
+      refreshToken
+    });
+  } catch (error) {
+    console.error('Two-factor verify error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Start 2FA enrollment: generate a secret and otpauth URI
+router.post('/auth/2fa/setup', requireAuth, blockImpersonation, async (c) => {
+  try {
+    const authUser = c.get('authUser');
+
+    const user = await db.select().from(users).where(eq(users.id, authUser.id));
+    if (user[0].totpEnabledAt) {
+      return c.json({ error: 'Two-factor authentication is already enabled' }, 400);
+    }
+
+    const secret = generateTotpSecret();
+
+    await db
+      .update(users)
+      .set({ totpSecret: secret, updatedAt: new Date() })
+      .where(eq(users.id, authUser.id));
+
+    return c.json({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      secret,
+      otpauthUri: buildOtpauthUri(secret, authUser.email || authUser.username || String(authUser.id))
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return c.json({ error: 'Failed to start two-factor setup' }, 500);
+  }
+});
 
-const router = new Hono();
+// Confirm 2FA enrollment with a first code and hand out recovery codes
+router.post('/auth/2fa/confirm', requireAuth, blockImpersonation, async (c) => {
+  try {
+    const { code } = await c.req.json();
+    const authUser = c.get('authUser');
+
+    if (!code) {
+      return c.json({ error: 'Code is required' }, 400);
+    }
+
+    const user = await db.select().from(users).where(eq(users.id, authUser.id));
+    if (user[0].totpEnabledAt) {
+      return c.json({ error: 'Two-factor authentication is already enabled' }, 400);
+    }
+    if (!user[0].totpSecret) {
+      return c.json({ error: 'Two-factor setup has not been started' }, 400);
+    }
+
+    if (!(await verifySecondFactor(user[0], code))) {
+      return c.json({ error: 'Invalid two-factor code' }, 400);
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+
+    await db
+      .update(users)
+      .set({
+        totpEnabledAt: new Date(),
+        totpRecoveryCodes: JSON.stringify(hashes),
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, authUser.id));
+
+    return c.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes: codes
+    });
+  } catch (error) {
+    console.error('Two-factor confirm error:', error);
+    return c.json({ error: 'Failed to enable two-factor authentication' }, 500);
+  }
+});
+
+// Replace all recovery codes
+router.post('/auth/2fa/recovery-codes', requireAuth, blockImpersonation, async (c) => {
+  try {
+    const { code } = await c.req.json();
+    const authUser = c.get('authUser');
+
+    const user = await db.select().from(users).where(eq(users.id, authUser.id));
+    if (!user[0].totpEnabledAt) {
+      return c.json({ error: 'Two-factor authentication is not enabled' }, 400);
+    }
+
+    if (!code || !(await verifySecondFactor(user[0], code))) {
+      return c.json({ error: 'Invalid two-factor code' }, 400);
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+
+    await db
+      .update(users)
+      .set({ totpRecoveryCodes: JSON.stringify(hashes), updatedAt: new Date() })
+      .where(eq(users.id, authUser.id));
+
+    return c.json({
+      message: 'Recovery codes regenerated',
+      recoveryCodes: codes
+    });
+  } catch (error) {
+    console.error('Two-factor recovery codes error:', error);
+    return c.json({ error: 'Failed to regenerate recovery codes' }, 500);
+  }
+});
+
+// Turn off 2FA (requires a current code or a recovery code)
+router.post('/auth/2fa/disable', requireAuth, blockImpersonation, async (c) => {
+  try {
+    const { code, recoveryCode } = await c.req.json();
+    const authUser = c.get('authUser');
+
+    const user = await db.select().from(users).where(eq(users.id, authUser.id));
+    if (!user[0].totpEnabledAt) {
+      return c.json({ error: 'Two-factor authentication is not enabled' }, 400);
+    }
+
+    if (!(await verifySecondFactor(user[0], code, recoveryCode))) {
+      return c.json({ error: 'Invalid two-factor code' }, 400);
+    }
+
+    // Admins cannot drop below the configured requirement
+    if (process.env.ADMIN_REQUIRE_2FA === 'true' && user[0].role === 'admin') {
+      return c.json({ error: 'Two-factor authentication is required for admin accounts' }, 400);
+    }
+
+    await db
+      .update(users)
+      .set({
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpRecoveryCodes: null,
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, authUser.id));
+
+    return c.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    return c.json({ error: 'Failed to disable two-factor authentication' }, 500);
+  }
+});
+
+// Exchange a refresh token for a new access/refresh token pair
+router.post('/auth/refresh', async (c) => {
+  try {
+    const { refreshToken } = await c.req.json();
+
+    if (!refreshToken) {
+      return c.json({ error: 'Refresh token is required' }, 400);
+    }
+
+    const tokens = await rotateRefreshToken(refreshToken, async (userId) => {
+      const user = await db.select().from(users).where(eq(users.id, userId));
+      return user[0] || null;
+    }, getSessionMeta(c));
+
+    return c.json({
+      message: 'Token refreshed successfully',
+      token: tokens.token,
+      refreshToken: tokens.refreshToken
+    });
+  } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      return c.json({ error: error.message }, 401);
+    }
+    console.error('Token refresh error:', error);
+    return c.json({ error: 'Failed to refresh token' }, 500);
+  }
+});
+
+// Logout from the current session
+router.post('/auth/logout', requireAuth, async (c) => {
+  try {
+    const { sessionId, impersonatorId } = c.get('authUser');
+
+    // requireAuth only admits session and support tokens, so there is always a session id here
+    if (impersonatorId) {
+      await endImpersonation(sessionId!);
+    } else {
+      await revokeSession(sessionId!);
+    }
+
+    return c.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return c.json({ error: 'Failed to logout' }, 500);
+  }
+});
+
+// Logout from every session of the current user
+router.post('/auth/logout-all', requireAuth, blockImpersonation, async (c) => {
+  try {
+    const revoked = await revokeAllSessions(c.get('authUser').id);
+
+    return c.json({
+      message: 'Logged out from all sessions successfully',
+      revokedSessions: revoked
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    return c.json({ error: 'Failed to logout from all sessions' }, 500);
+  }
+});
+
+// Request a password reset link
+router.post('/auth/forgot-password', async (c) => {
+  try {
+    const { email, username } = await c.req.json();
+
+    if (!email && !username) {
+      return c.json({ error: 'Email or username is required' }, 400);
+    }
+
+    const user = await db
+      .select()
+      .from(users)
+      .where(email ? eq(users.email, String(email).trim().toLowerCase()) : eq(users.username, String(username).trim()));
+
+    // Only local accounts with an email address can be recovered this way
+    if (user.length > 0 && user[0].password && user[0].email && user[0].isActive !== false) {
+      const token = randomBytes(32).toString('base64url');
+
+      await db.insert(passwordResetTokens).values({
+        userId: user[0].id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+      });
+
+      const resetUrl = `${FRONTEND_URL}/reset-password?token=${token}`;
+
+      // A delivery failure must not reveal that the account exists
+      try {
+        await sendMail({
+          to: user[0].email,
+          subject: 'Reset your MySkl password',
+          text: `Hi ${user[0].name},\n\nUse the link below to reset your password. It expires in 1 hour and can only be used once.\n\n${resetUrl}\n\nIf you did not request this, you can ignore this email.`,
+        });
+      } catch (error) {
+        console.error('Failed to send password reset email:', error);
+      }
+    }
+
+    // Always respond the same way so accounts cannot be enumerated
+    return c.json({
+      message: 'If an account matches, a password reset link has been sent'
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return c.json({ error: 'Failed to process password reset request' }, 500);
+  }
+});
+
+// Reset password using a token from the reset email
+router.post('/auth/reset-password', async (c) => {
+  try {
+    const { token, newPassword } = await c.req.json();
+
+    if (!token || !newPassword) {
+      return c.json({ error: 'Token and new password are required' }, 400);
+    }
+
+    const resetToken = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, hashToken(token)))
+      .limit(1);
+
+    if (
+      resetToken.length === 0 ||
+      resetToken[0].usedAt ||
+      resetToken[0].expiresAt.getTime() < Date.now()
+    ) {
+      return c.json({ error: 'Invalid or expired reset token' }, 400);
+    }
+
+    const userId = resetToken[0].userId;
+
+    const user = await db
+      .select({ username: users.username, email: users.email })
+      .from(users)
+      .where(eq(users.id, userId));
+    const passwordViolations = validatePassword(newPassword, user[0]);
+    if (passwordViolations.length > 0) {
+      return c.json(passwordPolicyError(passwordViolations), 400);
+    }
+
+    const hashedNewPassword = await hashPassword(newPassword);
+
+    const consumed = await db.transaction(async (tx) => {
+      // Claim the token atomically so two concurrent resets cannot both use it
+      const claimed = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(passwordResetTokens.id, resetToken[0].id),
+            isNull(passwordResetTokens.usedAt),
+            gt(passwordResetTokens.expiresAt, new Date())
+          )
+        )
+        .returning({ id: passwordResetTokens.id });
+      if (claimed.length === 0) {
+        return false;
+      }
+
+      await tx
+        .update(users)
+        .set({
+          password: hashedNewPassword,
+          updatedAt: new Date()
+        })
+        .where(eq(users.id, userId));
+
+      // Burn any other outstanding tokens for the user
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(passwordResetTokens.userId, userId),
+            isNull(passwordResetTokens.usedAt)
+          )
+        );
+
+      return true;
+    });
+
+    if (!consumed) {
+      return c.json({ error: 'Invalid or expired reset token' }, 400);
+    }
+
+    // Existing sessions may belong to whoever knew the old password
+    await revokeAllSessions(userId);
+
+    return c.json({ message: 'Password has been reset successfully' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return c.json({ error: 'Failed to reset password' }, 500);
+  }
+});
+
+// List login methods linked to the signed-in account
+router.get('/auth/identities', requireAuth, async (c) => {
+  try {
+    const authUser = c.get('authUser');
+    const user = await db.select({ password: users.password }).from(users).where(eq(users.id, authUser.id));
+
+    return c.json({
+      hasPassword: Boolean(user[0]?.password),
+      identities: await listIdentities(authUser.id)
+    });
+  } catch (error) {
+    console.error('List identities error:', error);
+    return c.json({ error: 'Failed to fetch linked accounts' }, 500);
+  }
+});
+
+// Get an auth URL for linking a provider to the signed-in user
+router.get(`/auth/:provider{${OAUTH_PROVIDER_PATTERN}}/link`, requireAuth, blockImpersonation, async (c) => {
+  const provider = getOAuthProvider(c.req.param('provider'))!;
+
+  if (!provider.isConfigured()) {
+    return c.json({ error: `${provider.displayName} OAuth not configured` }, 500);
+  }
+
+  try {
+    const { state, codeChallenge } = await createOAuthState({
+      provider: provider.name,
+      mode: 'link',
+      userId: c.get('authUser').id
+    });
+    return c.json({ authUrl: provider.getAuthorizeUrl(state, codeChallenge), state });
+  } catch (error) {
+    console.error('OAuth link URL error:', error);
+    return c.json({ error: 'Failed to start account linking' }, 500);
+  }
+});
+
+// Link a provider account to the signed-in user
+router.post(`/auth/:provider{${OAUTH_PROVIDER_PATTERN}}/link`, requireAuth, blockImpersonation, async (c) => {
+  const provider = getOAuthProvider(c.req.param('provider'))!;
+
+  try {
+    const { code, state } = await c.req.json();
+    const authUser = c.get('authUser');
+
+    if (!code || !state) {
+      return c.json({ error: 'Authorization code and state are required' }, 400);
+    }
+
+    // Linking state is bound to the user who started the flow
+    const stateRecord = await consumeOAuthState(state);
+    if (
+      !stateRecord ||
+      stateRecord.provider !== provider.name ||
+      stateRecord.mode !== 'link' ||
+      stateRecord.userId !== authUser.id
+    ) {
+      return c.json({ error: 'Invalid or expired OAuth state' }, 400);
+    }
+
+    const accessToken = await provider.exchangeCode(code, stateRecord.codeVerifier);
+    const profile = await provider.fetchProfile(accessToken);
+
+    const linkedUserId = await findUserIdByIdentity(provider.name, profile.providerUserId);
+    if (linkedUserId && linkedUserId !== authUser.id) {
+      return c.json({ error: `This ${provider.displayName} account is already linked to another user` }, 409);
+    }
+
+    await linkIdentity(authUser.id, provider.name, profile.providerUserId, profile.email);
+
+    // Keep the legacy column in sync for accounts without a Google ID yet
+    if (provider.name === 'google') {
+      await db
+        .update(users)
+        .set({
+          googleId: profile.providerUserId,
+          googleProfilePicture: profile.avatarUrl,
+          updatedAt: new Date()
+        })
+        .where(and(eq(users.id, authUser.id), isNull(users.googleId)));
+    }
+
+    return c.json({
+      message: 'Account linked successfully',
+      identities: await listIdentities(authUser.id)
+    });
+  } catch (error) {
+    console.error(`Link ${provider.displayName} account error:`, error);
+    return c.json({ error: 'Failed to link account' }, 500);
+  }
+});
+
+// Unlink an external identity (the last login method cannot be removed)
+router.delete('/auth/identities/:id', requireAuth, blockImpersonation, async (c) => {
+  try {
+    const identityId = parseInt(c.req.param('id'));
+    const authUser = c.get('authUser');
+
+    const identity = await db
+      .select()
+      .from(userIdentities)
+      .where(
+        and(
+          eq(userIdentities.id, identityId),
+          eq(userIdentities.userId, authUser.id),
+          isNull(userIdentities.unlinkedAt)
+        )
+      )
+      .limit(1);
+
+    if (identity.length === 0) {
+      return c.json({ error: 'Linked account not found' }, 404);
+    }
+
+    if (await countLoginMethods(authUser.id) <= 1) {
+      return c.json({ error: 'Cannot remove your last login method' }, 400);
+    }
+
+    await unlinkIdentity(identityId);
+
+    if (identity[0].provider === 'google') {
+      await db
+        .update(users)
+        .set({ googleId: null, updatedAt: new Date() })
+        .where(and(eq(users.id, authUser.id), eq(users.googleId, identity[0].providerUserId)));
+    }
+
+    return c.json({
+      message: 'Account unlinked successfully',
+      identities: await listIdentities(authUser.id)
+    });
+  } catch (error) {
+    console.error('Unlink identity error:', error);
+    return c.json({ error: 'Failed to unlink account' }, 500);
+  }
+});
+
+// List the signed-in user's personal access tokens
+router.get('/auth/tokens', requireAuth, blockImpersonation, async (c) => {
+  try {
+    return c.json({ tokens: await listAccessTokens(c.get('authUser').id) });
+  } catch (error) {
+    console.error('List access tokens error:', error);
+    return c.json({ error: 'Failed to fetch access tokens' }, 500);
+  }
+});
+
+// Create a personal access token (the token value is only shown in this response)
+router.post('/auth/tokens', requireAuth, blockImpersonation, async (c) => {
+  try {
+    const { name, scopes, expiresInDays = 90 } = await c.req.json();
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0 || name.length > 100) {
+      return c.json({ error: 'Token name is required (max 100 characters)' }, 400);
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      scopes.some((scope) => !ACCESS_TOKEN_SCOPES.includes(scope))
+    ) {
+      return c.json({ error: `Scopes must be a non-empty list of: ${ACCESS_TOKEN_SCOPES.join(', ')}` }, 400);
+    }
+
+    const days = Number(expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_ACCESS_TOKEN_DAYS) {
+      return c.json({ error: `Expiry must be between 1 and ${MAX_ACCESS_TOKEN_DAYS} days` }, 400);
+    }
+
+    const { token, accessToken } = await createAccessToken(
+      c.get('authUser').id,
+      name.trim(),
+      [...new Set<AccessTokenScope>(scopes)],
+      days
+    );
+
+    return c.json({
+      message: 'Access token created. Copy it now, it will not be shown again.',
+      token,
+      accessToken
+    }, 201);
+  } catch (error) {
+    console.error('Create access token error:', error);
+    return c.json({ error: 'Failed to create access token' }, 500);
+  }
+});
+
+// Revoke a personal access token
+router.delete('/auth/tokens/:id', requireAuth, blockImpersonation, async (c) => {
+  try {
+    const tokenId = parseInt(c.req.param('id'));
+
+    const revoked = await revokeAccessToken(c.get('authUser').id, tokenId);
+    if (!revoked) {
+      return c.json({ error: 'Access token not found' }, 404);
+    }
 
-// Google Auth - Get auth URL
-router.get('/auth/google', async (c) => {
-  try {
-    const authUrl = getGoogleAuthUrl();
-    return c.json({ authUrl });
+    return c.json({ message: 'Access token revoked successfully' });
   } catch (error) {
-    return c.json({ error: 'Google OAuth not configured' }, 500);
+    console.error('Revoke access token error:', error);
+    return c.json({ error: 'Failed to revoke access token' }, 500);
   }
 });
 
-// Google Auth - Handle callback
-router.post('/auth/google/callback', async (c) => {
+// Set a password on an account that only signs in through OAuth
+router.post('/auth/set-password', requireAuth, blockImpersonation, async (c) => {
   try {
-    const { code } = await c.req.json();
+    const { newPassword, username } = await c.req.json();
+    const authUser = c.get('authUser');
 
-    if (!code) {
-      return c.json({ error: 'Authorization code is required' }, 400);
+    if (!newPassword) {
+      return c.json({ error: 'New password is required' }, 400);
     }
 
-    // Get user info from Google
-    const googleUser = await getGoogleUserInfo(code);
+    const user = await db.select().from(users).where(eq(users.id, authUser.id));
+    if (user[0].password) {
+      return c.json({ error: 'Account already has a password, use change password instead' }, 400);
+    }
 
-    if (!googleUser.email || !googleUser.id) {
-      return c.json({ error: 'Failed to get user information from Google' }, 400);
+    const passwordViolations = validatePassword(newPassword, {
+      username: user[0].username || username?.trim(),
+      email: user[0].email
+    });
+    if (passwordViolations.length > 0) {
+      return c.json(passwordPolicyError(passwordViolations), 400);
     }
 
-    // Check if user exists
-    let existingUser = await db
-      .select()
-      .from(users)
-      .where(
-        or(
-          eq(users.googleId, googleUser.id),
-          eq(users.email, googleUser.email!)
-        )
-      );
+    const updateData: any = {
+      password: await hashPassword(newPassword),
+      updatedAt: new Date()
+    };
 
-    let user;
-    
-    if (existingUser.length > 0) {
-      // Update existing user with Google info if not already set
-      user = existingUser[0];
-      if (!user.googleId) {
-        await db
-          .update(users)
-          .set({
-            googleId: googleUser.id,
-            authProvider: 'google',
-            profilePicture: googleUser.picture || null,
-            googleProfilePicture: googleUser.picture || null,
-            updatedAt: new Date()
-          })
-          .where(eq(users.id, user.id));
-      } else if (googleUser.picture && user.googleProfilePicture !== googleUser.picture) {
-        // Update Google profile picture if it has changed
-        const updateData: any = {
-          googleProfilePicture: googleUser.picture,
-          updatedAt: new Date()
-        };
-        
-        // If user doesn't have a custom profile picture, also update the main profile picture
-        if (!user.profilePictureKey) {
-          updateData.profilePicture = googleUser.picture;
-        }
-        
-        await db
-          .update(users)
-          .set(updateData)
-          .where(eq(users.id, user.id));
-        
-        user.googleProfilePicture = googleUser.picture;
-        if (!user.profilePictureKey) {
-          user.profilePicture = googleUser.picture;
-        }
+    // Password logins are by username, so one must exist
+    if (!user[0].username) {
+      if (!username?.trim()) {
+        return c.json({ error: 'Username is required to sign in with a password' }, 400);
       }
-    } else {
-      // Create new user
-      const newUserData = {
-        name: googleUser.given_name || googleUser.name || 'Unknown',
-        lastname: googleUser.family_name || 'User',
-        email: googleUser.email!,
-        googleId: googleUser.id,
-        authProvider: 'google' as const,
-        profilePicture: googleUser.picture || null,
-        googleProfilePicture: googleUser.picture || null,
-      };
-
-      const newUser = await db
-        .insert(users)
-        .values(newUserData)
-        .returning({
-          id: users.id,
-          name: users.name,
-          lastname: users.lastname,
-          username: users.username,
-          email: users.email,
-          authProvider: users.authProvider,
-          profilePicture: users.profilePicture,
-          googleProfilePicture: users.googleProfilePicture,
-          createdAt: users.createdAt,
-        });
 
-      user = newUser[0];
-    }
+      if (isReservedUsername(username)) {
+        return c.json({ error: 'Username is not available' }, 409);
+      }
 
-    // Generate JWT token
-    const token = generateJWT(user);
+      const existingUser = await db.select().from(users).where(eq(users.username, username.trim()));
+      if (existingUser.length > 0) {
+        return c.json({ error: 'Username is already taken' }, 409);
+      }
 
-    // Return user data and token
-    const userData = {
-      id: user.id,
-      name: user.name,
-      lastname: user.lastname,
-      username: user.username,
-      email: user.email,
-      authProvider: user.authProvider,
-      profilePicture: user.profilePicture,
-      googleProfilePicture: user.googleProfilePicture,
-    };
+      updateData.username = username.trim();
+    }
 
-    return c.json({
-      message: 'Google login successful',
-      user: userData,
-      token
-    });
+    await db.update(users).set(updateData).where(eq(users.id, authUser.id));
 
+    return c.json({ message: 'Password set successfully' });
   } catch (error) {
-    console.error('Google auth callback error:', error);
-    return c.json({ error: 'Google authentication failed' }, 500);
+    console.error('Set password error:', error);
+    return c.json({ error: 'Failed to set password' }, 500);
   }
 });
 
-// Register endpoint
-router.post('/register', async (c) => {
+// Confirm an email address from a verification link
+router.post('/auth/verify-email', async (c) => {
   try {
-    const { name, lastname, username, password } = await c.req.json();
+    const { token } = await c.req.json();
 
-    // Validate required fields
-    if (!name || !lastname || !username || !password) {
-      return c.json({ error: 'All fields are required' }, 400);
+    if (!token) {
+      return c.json({ error: 'Verification token is required' }, 400);
     }
 
-    // Check if username already exists
-    const existingUser = await db.select().from(users).where(eq(users.username, username));
-    if (existingUser.length > 0) {
-      return c.json({ error: 'Username already exists' }, 409);
+    const payload = verifyEmailVerificationToken(token);
+    if (!payload) {
+      return c.json({ error: 'Invalid or expired verification token' }, 400);
     }
 
-    // Hash password
-    const saltRounds = 10;
-    const hashedPassword = await bcrypt.hash(password, saltRounds);
+    // The link is only valid for the address it was sent to
+    const verifiedUser = await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(users.id, payload.id), eq(users.email, payload.email)))
+      .returning({ id: users.id, email: users.email, emailVerifiedAt: users.emailVerifiedAt });
 
-    // Create user
-    const newUser = await db.insert(users).values({
-      name,
-      lastname,
-      username,
-      password: hashedPassword,
-    }).returning({
-      id: users.id,
-      name: users.name,
-      lastname: users.lastname,
-      username: users.username,
-      email: users.email,
-      authProvider: users.authProvider,
-      profilePicture: users.profilePicture,
-      profilePictureKey: users.profilePictureKey,
-      googleProfilePicture: users.googleProfilePicture,
-      createdAt: users.createdAt,
-    });
+    if (verifiedUser.length === 0) {
+      return c.json({ error: 'Invalid or expired verification token' }, 400);
+    }
 
-    return c.json({ 
-      message: 'User registered successfully', 
-      user: newUser[0] 
-    }, 201);
+    return c.json({
+      message: 'Email verified successfully',
+      user: verifiedUser[0]
+    });
   } catch (error) {
-    return c.json({ error: 'Internal server error' }, 500);
+    console.error('Verify email error:', error);
+    return c.json({ error: 'Failed to verify email' }, 500);
   }
 });
 
-// Login endpoint
-router.post('/login', async (c) => {
+// Send a new verification link to the signed-in user
+router.post('/auth/resend-verification', requireAuth, blockImpersonation, async (c) => {
   try {
-    const { username, password } = await c.req.json();
-
-    // Validate required fields
-    if (!username || !password) {
-      return c.json({ error: 'Username and password are required' }, 400);
-    }
-
-    // Find user by username
-    const user = await db.select().from(users).where(eq(users.username, username));
-    if (user.length === 0) {
-      return c.json({ error: 'Invalid credentials' }, 401);
-    }
+    const authUser = c.get('authUser');
 
-    // Check if user has a password (for non-OAuth users)
-    if (!user[0].password) {
-      return c.json({ error: 'Invalid credentials' }, 401);
+    if (!authUser.email) {
+      return c.json({ error: 'No email address on this account' }, 400);
     }
 
-    // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user[0].password);
-    if (!isPasswordValid) {
-      return c.json({ error: 'Invalid credentials' }, 401);
+    if (authUser.emailVerified) {
+      return c.json({ error: 'Email is already verified' }, 400);
     }
 
-    // Return user data (without password)
-    const userData = {
-      id: user[0].id,
-      name: user[0].name,
-      lastname: user[0].lastname,
-      username: user[0].username,
-      email: user[0].email,
-      authProvider: user[0].authProvider,
-      profilePicture: user[0].profilePicture,
-      profilePictureKey: user[0].profilePictureKey,
-      googleProfilePicture: user[0].googleProfilePicture,
-    };
+    await sendVerificationEmail({ id: authUser.id, name: authUser.name, email: authUser.email });
 
-    return c.json({ 
-      message: 'Login successful', 
-      user: userData 
-    });
+    return c.json({ message: 'Verification email sent' });
   } catch (error) {
-    return c.json({ error: 'Internal server error' }, 500);
+    console.error('Resend verification error:', error);
+    return c.json({ error: 'Failed to send verification email' }, 500);
   }
 });
 
 // Update user profile
-router.put('/profile/:id', async (c) => {
+router.put('/profile/:id', requireAuth, async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
-    const { name, lastname, username } = await c.req.json();
+
+    // Users may only modify their own account
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    const body = await c.req.json();
+    const { name, lastname, username, email } = body;
 
     // Validate required fields
     if (!name || !lastname) {
       return c.json({ error: 'Name and lastname are required' }, 400);
     }
 
-    // Prepare update data
+    // Prepare update data, including whichever professional details were sent
     const updateData: any = {
+      ...validateProfileDetails(body),
       name,
       lastname,
       updatedAt: new Date()
@@ -262,6 +1255,10 @@ router.put('/profile/:id', async (c) => {
         return c.json({ error: 'Username cannot be empty' }, 400);
       }
 
+      if (isReservedUsername(username)) {
+        return c.json({ error: 'Username is not available' }, 409);
+      }
+
       // Check if username is already taken by another user
       if (username.trim()) {
         const existingUser = await db
@@ -277,6 +1274,33 @@ router.put('/profile/:id', async (c) => {
       updateData.username = username.trim();
     }
 
+    // If email is provided and changed, it has to be verified again
+    let emailChanged = false;
+    if (email !== undefined) {
+      const normalizedEmail = String(email).trim().toLowerCase();
+
+      if (!EMAIL_REGEX.test(normalizedEmail)) {
+        return c.json({ error: 'Invalid email format' }, 400);
+      }
+
+      const currentUser = await db.select().from(users).where(eq(users.id, userId));
+      if (currentUser.length > 0 && currentUser[0].email !== normalizedEmail) {
+        // The email is a recovery channel, so support tokens may not change it
+        if (c.get('authUser').impersonatorId) {
+          return c.json({ error: 'This action is not allowed while impersonating a user' }, 403);
+        }
+
+        const existingEmail = await db.select().from(users).where(eq(users.email, normalizedEmail));
+        if (existingEmail.length > 0 && existingEmail[0].id !== userId) {
+          return c.json({ error: 'Email is already taken' }, 409);
+        }
+
+        updateData.email = normalizedEmail;
+        updateData.emailVerifiedAt = null;
+        emailChanged = true;
+      }
+    }
+
     // Update user profile
     const updatedUser = await db
       .update(users)
@@ -288,10 +1312,12 @@ router.put('/profile/:id', async (c) => {
         lastname: users.lastname,
         username: users.username,
         email: users.email,
+        emailVerifiedAt: users.emailVerifiedAt,
         authProvider: users.authProvider,
         profilePicture: users.profilePicture,
         profilePictureKey: users.profilePictureKey,
         googleProfilePicture: users.googleProfilePicture,
+        ...professionalProfileColumns,
         updatedAt: users.updatedAt,
       });
 
@@ -299,20 +1325,36 @@ router.put('/profile/:id', async (c) => {
       return c.json({ error: 'User not found' }, 404);
     }
 
+    if (emailChanged) {
+      try {
+        await sendVerificationEmail({ id: userId, name, email: updateData.email });
+      } catch (error) {
+        console.warn('Failed to send verification email:', error);
+      }
+    }
+
     return c.json({
       message: 'Profile updated successfully',
       user: updatedUser[0]
     });
   } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
     console.error('Profile update error:', error);
     return c.json({ error: 'Internal server error' }, 500);
   }
 });
 
 // Upload profile picture
-router.post('/profile-picture/:id', async (c) => {
+router.post('/profile-picture/:id', requireAuth, async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
+
+    // Users may only modify their own account
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
     const body = await c.req.parseBody();
     const file = body['profilePicture'] as File;
 
@@ -396,10 +1438,15 @@ router.post('/profile-picture/:id', async (c) => {
 });
 
 // Delete profile picture
-router.delete('/profile-picture/:id', async (c) => {
+router.delete('/profile-picture/:id', requireAuth, async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
 
+    // Users may only modify their own account
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     // Get current user
     const currentUser = await db
       .select()
@@ -453,10 +1500,15 @@ router.delete('/profile-picture/:id', async (c) => {
 });
 
 // Revert to Google profile picture
-router.put('/profile-picture/revert-google/:id', async (c) => {
+router.put('/profile-picture/revert-google/:id', requireAuth, async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
 
+    // Users may only modify their own account
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
     // Get current user
     const currentUser = await db
       .select()
@@ -517,9 +1569,14 @@ router.put('/profile-picture/revert-google/:id', async (c) => {
 });
 
 // Change password
-router.put('/change-password/:id', async (c) => {
+router.put('/change-password/:id', requireAuth, blockImpersonation, async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
+
+    // Users may only modify their own account
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
     const { currentPassword, newPassword } = await c.req.json();
 
     // Validate required fields
@@ -527,30 +1584,41 @@ router.put('/change-password/:id', async (c) => {
       return c.json({ error: 'Current password and new password are required' }, 400);
     }
 
-    if (newPassword.length < 6) {
-      return c.json({ error: 'New password must be at least 6 characters long' }, 400);
-    }
-
     // Get current user
     const user = await db.select().from(users).where(eq(users.id, userId));
     if (user.length === 0) {
       return c.json({ error: 'User not found' }, 404);
     }
 
+    const passwordViolations = validatePassword(newPassword, user[0]);
+    if (passwordViolations.length > 0) {
+      return c.json(passwordPolicyError(passwordViolations), 400);
+    }
+
     // Check if user has a password (for non-OAuth users)
     if (!user[0].password) {
       return c.json({ error: 'Cannot change password for OAuth users' }, 400);
     }
 
+    // A stolen session must not become an unlimited password oracle
+    const throttleKeys: ThrottleKey[] = [
+      { scope: 'password', identifier: String(userId) },
+      { scope: 'ip', identifier: getClientIp(c) },
+    ];
+    const retryAfter = await getRetryAfter(throttleKeys);
+    if (retryAfter > 0) {
+      return tooManyAttempts(c, retryAfter);
+    }
+
     // Verify current password
     const isCurrentPasswordValid = await bcrypt.compare(currentPassword, user[0].password);
     if (!isCurrentPasswordValid) {
-      return c.json({ error: 'Current password is incorrect' }, 401);
+      return rejectAttempt(c, throttleKeys, 'Current password is incorrect');
     }
+    await clearFailures([throttleKeys[0]]);
 
     // Hash new password
-    const saltRounds = 10;
-    const hashedNewPassword = await bcrypt.hash(newPassword, saltRounds);
+    const hashedNewPassword = await hashPassword(newPassword);
 
     // Update password
     await db
@@ -567,109 +1635,207 @@ router.put('/change-password/:id', async (c) => {
   }
 });
 
-// Search users
-router.get('/search', async (c) => {
+// Get public profile by user ID, limited to what the viewer may see
+router.get('/profile/:id', optionalAuth(), async (c) => {
   try {
-    const query = c.req.query('q');
-    const page = parseInt(c.req.query('page') || '1');
-    const limit = parseInt(c.req.query('limit') || '10');
-    const offset = (page - 1) * limit;
-
-    if (!query || query.trim().length < 2) {
-      return c.json({ 
-        users: [], 
-        total: 0, 
-        page, 
-        totalPages: 0 
-      });
+    const userId = parseInt(c.req.param('id'));
+    
+    if (isNaN(userId)) {
+      return c.json({ error: 'Invalid user ID' }, 400);
     }
 
-    const searchTerm = `%${query.trim()}%`;
-    
-    // Search users by name, lastname, or username
-    const searchResults = await db.select({
+    const userProfile = await db.select({
       id: users.id,
       name: users.name,
       lastname: users.lastname,
       username: users.username,
+      email: users.email,
+      authProvider: users.authProvider,
       profilePicture: users.profilePicture,
       googleProfilePicture: users.googleProfilePicture,
+      ...professionalProfileColumns,
       createdAt: users.createdAt,
     })
     .from(users)
-    .where(
-      or(
-        sql`${users.name} ILIKE ${searchTerm}`,
-        sql`${users.lastname} ILIKE ${searchTerm}`,
-        sql`${users.username} ILIKE ${searchTerm}`,
-        sql`CONCAT(${users.name}, ' ', ${users.lastname}) ILIKE ${searchTerm}`
-      )
-    )
-    .limit(limit)
-    .offset(offset);
+    .where(eq(users.id, userId));
 
-    // Get total count for pagination
-    const totalResult = await db.select({ count: sql<number>`COUNT(*)` })
-    .from(users)
-    .where(
-      or(
-        sql`${users.name} ILIKE ${searchTerm}`,
-        sql`${users.lastname} ILIKE ${searchTerm}`,
-        sql`${users.username} ILIKE ${searchTerm}`,
-        sql`CONCAT(${users.name}, ' ', ${users.lastname}) ILIKE ${searchTerm}`
-      )
-    );
+    const visible = await getVisibleSections(userId, c.get('viewer')?.id ?? null);
+    if (userProfile.length === 0 || !visible) {
+      return c.json({ error: 'User not found' }, 404);
+    }
 
-    const total = totalResult[0].count;
-    const totalPages = Math.ceil(total / limit);
+    const { email, ...profile } = userProfile[0];
+
+    // Hidden profiles only show the same card as user search results
+    if (!visible.profile) {
+      return c.json({
+        user: {
+          id: profile.id,
+          name: profile.name,
+          lastname: profile.lastname,
+          username: profile.username,
+          profilePicture: profile.profilePicture,
+          googleProfilePicture: profile.googleProfilePicture,
+          isRestricted: true,
+        }
+      });
+    }
 
     return c.json({
-      users: searchResults,
-      total,
-      page,
-      totalPages,
-      hasNext: page < totalPages,
-      hasPrev: page > 1
+      user: {
+        ...profile,
+        email: visible.email ? email : null,
+        experience: await listExperience(userId),
+        education: await listEducation(userId),
+        isRestricted: false,
+      }
     });
 
   } catch (error) {
-    console.error('User search error:', error);
-    return c.json({ error: 'Search failed' }, 500);
+    console.error('Get public profile error:', error);
+    return c.json({ error: 'Failed to fetch profile' }, 500);
   }
 });
 
-// Get public profile by user ID
-router.get('/profile/:id', async (c) => {
+// Add a work experience entry to the user's profile
+router.post('/profile/:id/experience', requireAuth, async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
-    
-    if (isNaN(userId)) {
-      return c.json({ error: 'Invalid user ID' }, 400);
+
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
     }
 
-    const userProfile = await db.select({
-      id: users.id,
-      name: users.name,
-      lastname: users.lastname,
-      username: users.username,
-      email: users.email,
-      authProvider: users.authProvider,
-      profilePicture: users.profilePicture,
-      googleProfilePicture: users.googleProfilePicture,
-      createdAt: users.createdAt,
-    })
-    .from(users)
-    .where(eq(users.id, userId));
+    const entry = await addExperience(userId, validateExperience(await c.req.json()));
 
-    if (userProfile.length === 0) {
-      return c.json({ error: 'User not found' }, 404);
+    return c.json({ message: 'Experience added successfully', data: entry }, 201);
+  } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error('Add experience error:', error);
+    return c.json({ error: 'Failed to add experience' }, 500);
+  }
+});
+
+// Replace a work experience entry
+router.put('/profile/:id/experience/:entryId', requireAuth, async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const entryId = parseInt(c.req.param('entryId'));
+
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    if (isNaN(entryId)) {
+      return c.json({ error: 'Invalid experience ID' }, 400);
     }
 
-    return c.json({ user: userProfile[0] });
+    const entry = await updateExperience(userId, entryId, validateExperience(await c.req.json()));
+    if (!entry) {
+      return c.json({ error: 'Experience not found' }, 404);
+    }
 
+    return c.json({ message: 'Experience updated successfully', data: entry });
   } catch (error) {
-    console.error('Get public profile error:', error);
-    return c.json({ error: 'Failed to fetch profile' }, 500);
+    if (error instanceof ProfileValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error('Update experience error:', error);
+    return c.json({ error: 'Failed to update experience' }, 500);
+  }
+});
+
+// Remove a work experience entry
+router.delete('/profile/:id/experience/:entryId', requireAuth, async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const entryId = parseInt(c.req.param('entryId'));
+
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    if (isNaN(entryId) || !(await deleteExperience(userId, entryId))) {
+      return c.json({ error: 'Experience not found' }, 404);
+    }
+
+    return c.json({ message: 'Experience deleted successfully' });
+  } catch (error) {
+    console.error('Delete experience error:', error);
+    return c.json({ error: 'Failed to delete experience' }, 500);
+  }
+});
+
+// Add an education entry to the user's profile
+router.post('/profile/:id/education', requireAuth, async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    const entry = await addEducation(userId, validateEducation(await c.req.json()));
+
+    return c.json({ message: 'Education added successfully', data: entry }, 201);
+  } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error('Add education error:', error);
+    return c.json({ error: 'Failed to add education' }, 500);
+  }
+});
+
+// Replace an education entry
+router.put('/profile/:id/education/:entryId', requireAuth, async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const entryId = parseInt(c.req.param('entryId'));
+
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    if (isNaN(entryId)) {
+      return c.json({ error: 'Invalid education ID' }, 400);
+    }
+
+    const entry = await updateEducation(userId, entryId, validateEducation(await c.req.json()));
+    if (!entry) {
+      return c.json({ error: 'Education not found' }, 404);
+    }
+
+    return c.json({ message: 'Education updated successfully', data: entry });
+  } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error('Update education error:', error);
+    return c.json({ error: 'Failed to update education' }, 500);
+  }
+});
+
+// Remove an education entry
+router.delete('/profile/:id/education/:entryId', requireAuth, async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const entryId = parseInt(c.req.param('entryId'));
+
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    if (isNaN(entryId) || !(await deleteEducation(userId, entryId))) {
+      return c.json({ error: 'Education not found' }, 404);
+    }
+
+    return c.json({ message: 'Education deleted successfully' });
+  } catch (error) {
+    console.error('Delete education error:', error);
+    return c.json({ error: 'Failed to delete education' }, 500);
   }
 });
 
@@ -729,12 +1895,19 @@ router.post('/contact', async (c) => {
 });
 
 // Send connection request
-router.post('/connections/request', async (c) => {
+router.post('/connections/request', requireAuth, requireVerifiedEmail, async (c) => {
   try {
-    const { senderId, receiverId, message } = await c.req.json();
+    const body = await c.req.json();
+    const { receiverId, message } = body;
+    const senderId = c.get('authUser').id;
 
-    if (!senderId || !receiverId) {
-      return c.json({ error: 'Sender ID and Receiver ID are required' }, 400);
+    // Requests can only be sent on behalf of the signed-in user
+    if (body.senderId !== undefined && body.senderId !== senderId) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    if (!receiverId) {
+      return c.json({ error: 'Receiver ID is required' }, 400);
     }
 
     if (senderId === receiverId) {
@@ -794,14 +1967,10 @@ router.post('/connections/request', async (c) => {
 });
 
 // Accept connection request
-router.put('/connections/accept/:requestId', async (c) => {
+router.put('/connections/accept/:requestId', requireAuth, async (c) => {
   try {
     const requestId = parseInt(c.req.param('requestId'));
-    const { userId } = await c.req.json();
-
-    if (!userId) {
-      return c.json({ error: 'User ID is required' }, 400);
-    }
+    const userId = c.get('authUser').id;
 
     // Find the connection request
     const request = await db.select().from(connectionRequests)
@@ -848,14 +2017,10 @@ router.put('/connections/accept/:requestId', async (c) => {
 });
 
 // Reject connection request
-router.put('/connections/reject/:requestId', async (c) => {
+router.put('/connections/reject/:requestId', requireAuth, async (c) => {
   try {
     const requestId = parseInt(c.req.param('requestId'));
-    const { userId } = await c.req.json();
-
-    if (!userId) {
-      return c.json({ error: 'User ID is required' }, 400);
-    }
+    const userId = c.get('authUser').id;
 
     // Find the connection request
     const request = await db.select().from(connectionRequests)
@@ -1028,12 +2193,18 @@ router.get('/connections/status/:userId/:otherUserId', async (c) => {
 });
 
 // Disconnect from another user
-router.delete('/connections/disconnect', async (c) => {
+router.delete('/connections/disconnect', requireAuth, async (c) => {
   try {
-    const { userId, otherUserId } = await c.req.json();
+    const body = await c.req.json();
+    const { otherUserId } = body;
+    const userId = c.get('authUser').id;
 
-    if (!userId || !otherUserId) {
-      return c.json({ error: 'Both user IDs are required' }, 400);
+    if (body.userId !== undefined && body.userId !== userId) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    if (!otherUserId) {
+      return c.json({ error: 'Other user ID is required' }, 400);
     }
 
     if (userId === otherUserId) {
@@ -1066,7 +2237,7 @@ router.delete('/connections/disconnect', async (c) => {
 });
 
 // Check if user is admin
-router.get('/check-admin/:id', async (c) => {
+router.get('/check-admin/:id', requireAuth, async (c) => {
   try {
     const userId = parseInt(c.req.param('id'));
     
@@ -1074,7 +2245,13 @@ router.get('/check-admin/:id', async (c) => {
       return c.json({ error: 'Invalid user ID' }, 400);
     }
 
-    const isAdmin = await checkAdminRole(userId);
+    // Admin status is only reported for the verified caller
+    if (userId !== c.get('authUser').id) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    const token = c.req.header('Authorization')!.substring(7);
+    const isAdmin = await checkAdminRole(token);
     
     return c.json({
       success: true,
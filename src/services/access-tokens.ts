@@ -0,0 +1,144 @@
+import { createHash, randomBytes } from 'crypto';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { personalAccessTokens } from '../db/schema.js';
+
+// Recognizable prefix so tokens are easy to spot in logs and secret scanners
+export const ACCESS_TOKEN_PREFIX = 'myskl_pat_';
+
+export const ACCESS_TOKEN_SCOPES = [
+  'projects:read',
+  'projects:write',
+  'skills:read',
+  'skills:write',
+] as const;
+
+export type AccessTokenScope = (typeof ACCESS_TOKEN_SCOPES)[number];
+
+export const MAX_ACCESS_TOKEN_DAYS = 365;
+
+// Only touch last_used_at once a minute to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ResolvedAccessToken {
+  tokenId: number;
+  userId: number;
+  scopes: string[];
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+// A write scope also grants the matching read scope
+export function hasScope(scopes: string[], required: AccessTokenScope): boolean {
+  if (scopes.includes(required)) {
+    return true;
+  }
+  const [resource, action] = required.split(':');
+  return action === 'read' && scopes.includes(`${resource}:write`);
+}
+
+function toAccessTokenData(record: typeof personalAccessTokens.$inferSelect) {
+  return {
+    id: record.id,
+    name: record.name,
+    tokenPrefix: record.tokenPrefix,
+    scopes: JSON.parse(record.scopes) as string[],
+    expiresAt: record.expiresAt,
+    lastUsedAt: record.lastUsedAt,
+    createdAt: record.createdAt,
+    expired: record.expiresAt.getTime() <= Date.now(),
+  };
+}
+
+// Create a token; the plain value is returned once and never stored
+export async function createAccessToken(
+  userId: number,
+  name: string,
+  scopes: AccessTokenScope[],
+  expiresInDays: number
+) {
+  const token = ACCESS_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+
+  const created = await db
+    .insert(personalAccessTokens)
+    .values({
+      userId,
+      name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.substring(0, ACCESS_TOKEN_PREFIX.length + 6),
+      scopes: JSON.stringify(scopes),
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+    })
+    .returning();
+
+  return { token, accessToken: toAccessTokenData(created[0]) };
+}
+
+// Active (non-revoked) tokens of a user, newest first
+export async function listAccessTokens(userId: number) {
+  const tokens = await db
+    .select()
+    .from(personalAccessTokens)
+    .where(and(eq(personalAccessTokens.userId, userId), isNull(personalAccessTokens.revokedAt)))
+    .orderBy(desc(personalAccessTokens.createdAt));
+
+  return tokens.map(toAccessTokenData);
+}
+
+// Revoke one of the user's tokens; false when it does not exist or is already revoked
+export async function revokeAccessToken(userId: number, tokenId: number): Promise<boolean> {
+  const revoked = await db
+    .update(personalAccessTokens)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(personalAccessTokens.id, tokenId),
+        eq(personalAccessTokens.userId, userId),
+        isNull(personalAccessTokens.revokedAt)
+      )
+    )
+    .returning({ id: personalAccessTokens.id });
+
+  return revoked.length > 0;
+}
+
+// Revoke every token of a user (e.g. when the account is deactivated)
+export async function revokeAllAccessTokens(userId: number): Promise<void> {
+  await db
+    .update(personalAccessTokens)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(personalAccessTokens.userId, userId), isNull(personalAccessTokens.revokedAt)));
+}
+
+// Look up a presented token; null when unknown, revoked or expired
+export async function resolveAccessToken(token: string): Promise<ResolvedAccessToken | null> {
+  const record = await db
+    .select()
+    .from(personalAccessTokens)
+    .where(eq(personalAccessTokens.tokenHash, hashToken(token)))
+    .limit(1);
+
+  if (record.length === 0 || record[0].revokedAt || record[0].expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  const now = new Date();
+  if (!record[0].lastUsedAt || now.getTime() - record[0].lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await db
+      .update(personalAccessTokens)
+      .set({ lastUsedAt: now })
+      .where(eq(personalAccessTokens.id, record[0].id));
+  }
+
+  return {
+    tokenId: record[0].id,
+    userId: record[0].userId,
+    scopes: JSON.parse(record[0].scopes),
+  };
+}
@@ -0,0 +1,222 @@
+import { and, eq, inArray, isNull, isNotNull, lte, or } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import {
+  users,
+  projects,
+  skills,
+  connections,
+  connectionRequests,
+  conversations,
+  messages,
+  userIdentities,
+  passwordResetTokens,
+  personalAccessTokens,
+  workExperiences,
+  educations,
+  userRoadmaps,
+  userTaskProgress,
+  taskCertificates,
+  taskProjects,
+  roadmapFinalProjects,
+} from '../db/schema.js';
+import { deleteFile } from './s3.js';
+import { revokeAllSessions } from './sessions.js';
+import { revokeAllAccessTokens } from './access-tokens.js';
+import { deleteCachedResumes } from './resume.js';
+import { deleteAccountExports } from './account-export.js';
+
+// Users can change their mind for two weeks before the account is scrubbed
+export const DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '') || 14;
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Usernames nobody can register, so no one can pass for the "Deleted User" placeholder
+const RESERVED_USERNAMES = ['deleted-user', 'deleted', 'deleteduser'];
+
+export function isReservedUsername(username: string): boolean {
+  return RESERVED_USERNAMES.includes(username.trim().toLowerCase());
+}
+
+export function getDeletionDate(requestedAt: Date): Date {
+  return new Date(requestedAt.getTime() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Start the grace period and sign the user out everywhere
+export async function scheduleAccountDeletion(userId: number): Promise<Date> {
+  const requestedAt = new Date();
+
+  await db
+    .update(users)
+    .set({ deletionRequestedAt: requestedAt, updatedAt: requestedAt })
+    .where(eq(users.id, userId));
+
+  await revokeAllSessions(userId);
+  await revokeAllAccessTokens(userId);
+
+  return getDeletionDate(requestedAt);
+}
+
+// Keep the account; false when no deletion was pending
+export async function cancelAccountDeletion(userId: number): Promise<boolean> {
+  const updated = await db
+    .update(users)
+    .set({ deletionRequestedAt: null, updatedAt: new Date() })
+    .where(and(eq(users.id, userId), isNotNull(users.deletionRequestedAt), isNull(users.deletedAt)))
+    .returning({ id: users.id });
+
+  return updated.length > 0;
+}
+
+// Scrub a user's personal data; database changes are atomic, S3 objects are removed afterwards
+export async function purgeAccount(userId: number): Promise<void> {
+  const fileKeys = await db.transaction(async (tx) => {
+    const user = await tx
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), isNotNull(users.deletionRequestedAt), isNull(users.deletedAt)))
+      .for('update');
+
+    // Cancelled or already purged in the meantime
+    if (user.length === 0) {
+      return [];
+    }
+
+    // The placeholder that takes over authored messages is seeded by migrate-account-deletion.sql
+    const placeholder = await tx.select({ id: users.id }).from(users).where(eq(users.isSystem, true)).limit(1);
+    if (placeholder.length === 0) {
+      throw new Error('Deleted user placeholder is missing, run migrate-account-deletion.sql');
+    }
+    const placeholderId = placeholder[0].id;
+
+    const roadmaps = await tx.select().from(userRoadmaps).where(eq(userRoadmaps.userId, userId));
+    const roadmapIds = roadmaps.map((roadmap) => roadmap.id);
+    const progress = await tx.select().from(userTaskProgress).where(eq(userTaskProgress.userId, userId));
+    const progressIds = progress.map((entry) => entry.id);
+
+    const userProjects = await tx.select().from(projects).where(eq(projects.userId, userId));
+    const certificates = progressIds.length > 0
+      ? await tx.select().from(taskCertificates).where(inArray(taskCertificates.userTaskProgressId, progressIds))
+      : [];
+    const submittedProjects = progressIds.length > 0
+      ? await tx.select().from(taskProjects).where(inArray(taskProjects.userTaskProgressId, progressIds))
+      : [];
+    const finalProjects = roadmapIds.length > 0
+      ? await tx.select().from(roadmapFinalProjects).where(inArray(roadmapFinalProjects.userRoadmapId, roadmapIds))
+      : [];
+
+    const keys = [
+      user[0].profilePictureKey,
+      ...userProjects.map((project) => project.imageKey),
+      ...certificates.map((certificate) => certificate.certificateKey),
+      ...submittedProjects.map((project) => project.imageKey),
+      ...finalProjects.map((project) => project.imageKey),
+    ].filter((key): key is string => Boolean(key));
+
+    // Roadmap progress, children first
+    if (progressIds.length > 0) {
+      await tx.delete(taskCertificates).where(inArray(taskCertificates.userTaskProgressId, progressIds));
+      await tx.delete(taskProjects).where(inArray(taskProjects.userTaskProgressId, progressIds));
+      await tx.delete(userTaskProgress).where(inArray(userTaskProgress.id, progressIds));
+    }
+    if (roadmapIds.length > 0) {
+      await tx.delete(roadmapFinalProjects).where(inArray(roadmapFinalProjects.userRoadmapId, roadmapIds));
+      await tx.delete(userRoadmaps).where(inArray(userRoadmaps.id, roadmapIds));
+    }
+
+    await tx.delete(projects).where(eq(projects.userId, userId));
+    await tx.delete(skills).where(eq(skills.userId, userId));
+    await tx.delete(connections).where(or(eq(connections.user1Id, userId), eq(connections.user2Id, userId)));
+    await tx
+      .delete(connectionRequests)
+      .where(or(eq(connectionRequests.senderId, userId), eq(connectionRequests.receiverId, userId)));
+    await tx.delete(userIdentities).where(eq(userIdentities.userId, userId));
+    await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+    await tx.delete(personalAccessTokens).where(eq(personalAccessTokens.userId, userId));
+    await tx.delete(workExperiences).where(eq(workExperiences.userId, userId));
+    await tx.delete(educations).where(eq(educations.userId, userId));
+
+    // The other side keeps its chat history, shown as coming from "Deleted User"
+    await tx.update(messages).set({ senderId: placeholderId }).where(eq(messages.senderId, userId));
+    await tx.update(conversations).set({ user1Id: placeholderId }).where(eq(conversations.user1Id, userId));
+    await tx.update(conversations).set({ user2Id: placeholderId }).where(eq(conversations.user2Id, userId));
+
+    const now = new Date();
+    await tx
+      .update(users)
+      .set({
+        name: 'Deleted',
+        lastname: 'User',
+        username: null,
+        password: null,
+        email: null,
+        emailVerifiedAt: null,
+        googleId: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpRecoveryCodes: null,
+        profilePicture: null,
+        profilePictureKey: null,
+        googleProfilePicture: null,
+        headline: null,
+        bio: null,
+        location: null,
+        timezone: null,
+        websiteUrl: null,
+        githubUrl: null,
+        linkedinUrl: null,
+        xUrl: null,
+        openToWork: false,
+        isActive: false,
+        deletedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(users.id, userId));
+
+    return keys;
+  });
+
+  await revokeAllSessions(userId);
+  await deleteCachedResumes(userId);
+  await deleteAccountExports(userId);
+
+  // Objects left behind by a failed delete are orphaned but no longer linked to anyone
+  for (const key of new Set(fileKeys)) {
+    try {
+      await deleteFile(key);
+    } catch (error) {
+      console.error(`Failed to delete '${key}' for deleted user ${userId}:`, error);
+    }
+  }
+
+  console.log(`🗑️ Account ${userId} deleted`);
+}
+
+// Purge every account whose grace period is over
+export async function purgeDueAccounts(): Promise<number> {
+  const cutoff = new Date(Date.now() - DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+  const due = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(lte(users.deletionRequestedAt, cutoff), isNull(users.deletedAt)));
+
+  for (const { id } of due) {
+    try {
+      await purgeAccount(id);
+    } catch (error) {
+      console.error(`Failed to delete account ${id}:`, error);
+    }
+  }
+
+  return due.length;
+}
+
+// Check for due deletions once an hour
+export function startAccountDeletionWorker(): void {
+  const sweep = () => {
+    purgeDueAccounts().catch((error) => console.error('Account deletion sweep error:', error));
+  };
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,277 @@
+import { randomUUID } from 'crypto';
+import { eq, inArray, or } from 'drizzle-orm';
+import yazl from 'yazl';
+import { db } from '../db/index.js';
+import {
+  users,
+  projects,
+  skills,
+  connections,
+  connectionRequests,
+  conversations,
+  messages,
+  userRoadmaps,
+  userTaskProgress,
+  taskCertificates,
+  taskProjects,
+  roadmapFinalProjects,
+  workExperiences,
+  educations,
+} from '../db/schema.js';
+import { redis } from '../utils/redis.js';
+import { uploadFile, deleteFile, getFileBuffer, generatePresignedDownloadUrl, privateFileKey } from './s3.js';
+
+// Job records (and the archive itself) are kept for a day
+const EXPORT_JOB_TTL = 60 * 60 * 24;
+
+// A job that has not finished by then was lost, e.g. to a restart while building the archive
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+// Download links are short-lived; a fresh one is signed on every status check
+export const EXPORT_URL_TTL = 15 * 60;
+
+export type ExportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ExportJob {
+  id: string;
+  userId: number;
+  status: ExportStatus;
+  fileKey?: string;
+  error?: string;
+  createdAt: number;
+  completedAt?: number;
+}
+
+const jobKey = (jobId: string) => `export:job:${jobId}`;
+const latestJobKey = (userId: number) => `export:user:${userId}:latest`;
+
+// Archive keys scored by the time their job record expires
+const EXPIRING_ARCHIVES_KEY = 'export:archives';
+
+const archiveKey = (userId: number, jobId: string) => privateFileKey(`exports/${userId}/${jobId}.zip`);
+
+async function saveJob(job: ExportJob): Promise<void> {
+  await redis.setEx(jobKey(job.id), EXPORT_JOB_TTL, JSON.stringify(job));
+}
+
+export async function getExportJob(jobId: string): Promise<ExportJob | null> {
+  const raw = await redis.get(jobKey(jobId));
+  if (!raw) {
+    return null;
+  }
+
+  const job: ExportJob = JSON.parse(raw);
+  if ((job.status === 'pending' || job.status === 'processing') && Date.now() - job.createdAt > STALE_JOB_MS) {
+    const failed: ExportJob = { ...job, status: 'failed', error: 'Export failed, please try again', completedAt: Date.now() };
+    await redis.set(jobKey(job.id), JSON.stringify(failed), { expiration: 'KEEPTTL' });
+    return failed;
+  }
+  return job;
+}
+
+export async function getLatestExportJob(userId: number): Promise<ExportJob | null> {
+  const jobId = await redis.get(latestJobKey(userId));
+  return jobId ? getExportJob(jobId) : null;
+}
+
+// Queue an export for a user; an export that is still running is returned instead of starting another
+export async function startAccountExport(userId: number): Promise<ExportJob> {
+  const previous = await getLatestExportJob(userId);
+  if (previous && (previous.status === 'pending' || previous.status === 'processing')) {
+    return previous;
+  }
+
+  const job: ExportJob = {
+    id: randomUUID(),
+    userId,
+    status: 'pending',
+    createdAt: Date.now(),
+  };
+  await saveJob(job);
+  await redis.setEx(latestJobKey(userId), EXPORT_JOB_TTL, job.id);
+
+  // Only the newest archive is kept around
+  if (previous?.fileKey) {
+    const fileKey = previous.fileKey;
+    deleteFile(fileKey)
+      .then(() => redis.zRem(EXPIRING_ARCHIVES_KEY, fileKey))
+      .catch(() => {});
+  }
+
+  // Build the archive in the background; the client polls the job for the result
+  setImmediate(() => {
+    runExport(job).catch((error) => console.error(`Account export ${job.id} crashed:`, error));
+  });
+
+  return job;
+}
+
+// Presigned link for a completed export
+export async function getExportDownloadUrl(job: ExportJob): Promise<string | null> {
+  if (job.status !== 'completed' || !job.fileKey) {
+    return null;
+  }
+  return generatePresignedDownloadUrl(job.fileKey, EXPORT_URL_TTL);
+}
+
+async function runExport(job: ExportJob): Promise<void> {
+  await saveJob({ ...job, status: 'processing' });
+
+  try {
+    const archive = await buildArchive(job.userId);
+    const fileKey = archiveKey(job.userId, job.id);
+    await uploadFile(fileKey, archive, 'application/zip');
+    await redis.zAdd(EXPIRING_ARCHIVES_KEY, { score: Date.now() + EXPORT_JOB_TTL * 1000, value: fileKey });
+
+    await saveJob({ ...job, status: 'completed', fileKey, completedAt: Date.now() });
+    console.log(`📦 Account export ${job.id} ready for user ${job.userId}`);
+  } catch (error: any) {
+    console.error(`Account export ${job.id} failed:`, error);
+    await saveJob({ ...job, status: 'failed', error: 'Export failed, please try again', completedAt: Date.now() });
+  }
+}
+
+// Remove archives whose job has expired
+export async function deleteExpiredExports(): Promise<number> {
+  const expired = await redis.zRangeByScore(EXPIRING_ARCHIVES_KEY, 0, Date.now());
+
+  for (const fileKey of expired) {
+    try {
+      await deleteFile(fileKey);
+      await redis.zRem(EXPIRING_ARCHIVES_KEY, fileKey);
+    } catch (error) {
+      console.error(`Failed to delete expired export '${fileKey}':`, error);
+    }
+  }
+
+  return expired.length;
+}
+
+// Remove every export of a user, e.g. when the account is purged
+export async function deleteAccountExports(userId: number): Promise<void> {
+  const prefix = archiveKey(userId, '');
+  const archives = (await redis.zRange(EXPIRING_ARCHIVES_KEY, 0, -1)).filter((key) => key.startsWith(prefix));
+
+  for (const fileKey of archives) {
+    await deleteFile(fileKey).catch(() => {});
+    await redis.zRem(EXPIRING_ARCHIVES_KEY, fileKey);
+  }
+
+  const jobId = await redis.getDel(latestJobKey(userId));
+  if (jobId) {
+    await redis.del(jobKey(jobId));
+  }
+}
+
+// Check for expired archives every ten minutes
+export function startExportCleanupWorker(): void {
+  const sweep = () => {
+    deleteExpiredExports().catch((error) => console.error('Export cleanup error:', error));
+  };
+
+  sweep();
+  setInterval(sweep, CLEANUP_INTERVAL_MS).unref();
+}
+
+// Collect every row that belongs to the user, keyed by the file name used in the archive
+async function collectUserData(userId: number) {
+  const user = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  if (user.length === 0) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  // Credentials never leave the server, not even to their owner
+  const { password, totpSecret, totpRecoveryCodes, ...profile } = user[0];
+
+  const userConversations = await db
+    .select()
+    .from(conversations)
+    .where(or(eq(conversations.user1Id, userId), eq(conversations.user2Id, userId)));
+  const conversationIds = userConversations.map((conversation) => conversation.id);
+
+  const roadmaps = await db.select().from(userRoadmaps).where(eq(userRoadmaps.userId, userId));
+  const roadmapIds = roadmaps.map((roadmap) => roadmap.id);
+
+  const taskProgress = await db.select().from(userTaskProgress).where(eq(userTaskProgress.userId, userId));
+  const progressIds = taskProgress.map((progress) => progress.id);
+
+  return {
+    profile: { ...profile, hasPassword: Boolean(password), twoFactorEnabled: Boolean(user[0].totpEnabledAt) },
+    projects: await db.select().from(projects).where(eq(projects.userId, userId)),
+    skills: await db.select().from(skills).where(eq(skills.userId, userId)),
+    experience: await db.select().from(workExperiences).where(eq(workExperiences.userId, userId)),
+    education: await db.select().from(educations).where(eq(educations.userId, userId)),
+    connections: await db
+      .select()
+      .from(connections)
+      .where(or(eq(connections.user1Id, userId), eq(connections.user2Id, userId))),
+    connectionRequests: await db
+      .select()
+      .from(connectionRequests)
+      .where(or(eq(connectionRequests.senderId, userId), eq(connectionRequests.receiverId, userId))),
+    conversations: userConversations,
+    messages: conversationIds.length > 0
+      ? await db.select().from(messages).where(inArray(messages.conversationId, conversationIds))
+      : [],
+    roadmaps,
+    taskProgress,
+    taskCertificates: progressIds.length > 0
+      ? await db.select().from(taskCertificates).where(inArray(taskCertificates.userTaskProgressId, progressIds))
+      : [],
+    taskProjects: progressIds.length > 0
+      ? await db.select().from(taskProjects).where(inArray(taskProjects.userTaskProgressId, progressIds))
+      : [],
+    roadmapFinalProjects: roadmapIds.length > 0
+      ? await db.select().from(roadmapFinalProjects).where(inArray(roadmapFinalProjects.userRoadmapId, roadmapIds))
+      : [],
+  };
+}
+
+// S3 objects referenced by the user's rows
+function collectFileKeys(data: Awaited<ReturnType<typeof collectUserData>>): string[] {
+  const keys = [
+    data.profile.profilePictureKey,
+    ...data.projects.map((project) => project.imageKey),
+    ...data.taskCertificates.map((certificate) => certificate.certificateKey),
+    ...data.taskProjects.map((project) => project.imageKey),
+    ...data.roadmapFinalProjects.map((project) => project.imageKey),
+  ];
+
+  return [...new Set(keys.filter((key): key is string => Boolean(key)))];
+}
+
+async function buildArchive(userId: number): Promise<Buffer> {
+  const data = await collectUserData(userId);
+  const zip = new yazl.ZipFile();
+
+  for (const [name, rows] of Object.entries(data)) {
+    zip.addBuffer(Buffer.from(JSON.stringify(rows, null, 2)), `data/${name}.json`);
+  }
+
+  // A missing object should not sink the whole export
+  const missingFiles: string[] = [];
+  for (const key of collectFileKeys(data)) {
+    try {
+      zip.addBuffer(await getFileBuffer(key), `files/${key}`);
+    } catch (error) {
+      missingFiles.push(key);
+    }
+  }
+
+  zip.addBuffer(
+    Buffer.from(JSON.stringify({ userId, exportedAt: new Date().toISOString(), missingFiles }, null, 2)),
+    'manifest.json'
+  );
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    zip.outputStream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    zip.outputStream.on('end', () => resolve(Buffer.concat(chunks)));
+    zip.outputStream.on('error', reject);
+  });
+  zip.end();
+
+  return done;
+}
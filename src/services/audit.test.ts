@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffRecords, auditEventsToCsv, parseRangeEnd } from './audit.js';
+
+type CsvEvents = Parameters<typeof auditEventsToCsv>[0];
+
+function csvEvent(fields: Record<string, unknown>): CsvEvents[number] {
+  return {
+    id: 1,
+    createdAt: new Date('2026-10-19T12:00:00Z'),
+    actorId: 7,
+    actorUsername: 'admin',
+    action: 'user.role.update',
+    targetType: 'user',
+    targetId: '42',
+    before: null,
+    after: null,
+    ipAddress: null,
+    userAgent: null,
+    ...fields,
+  } as CsvEvents[number];
+}
+
+test('diffRecords keeps only the fields that changed', () => {
+  assert.deepEqual(diffRecords({ role: 'user', name: 'Ann' }, { role: 'admin', name: 'Ann' }), {
+    before: { role: 'user' },
+    after: { role: 'admin' },
+  });
+});
+
+test('diffRecords redacts secrets and ignores updatedAt', () => {
+  const diff = diffRecords(
+    { password: 'old', totpSecret: 'a', updatedAt: new Date(1), bio: null },
+    { password: 'new', totpSecret: 'b', updatedAt: new Date(2), bio: 'Hi' }
+  );
+  assert.deepEqual(diff, { before: { bio: null }, after: { bio: 'Hi' } });
+});
+
+test('diffRecords handles created and deleted records', () => {
+  assert.deepEqual(diffRecords(null, { name: 'Ann' }), { before: null, after: { name: 'Ann' } });
+  assert.deepEqual(diffRecords({ name: 'Ann' }, undefined), { before: { name: 'Ann' }, after: null });
+});
+
+test('diffRecords compares dates by value', () => {
+  const diff = diffRecords({ at: new Date('2026-01-01T00:00:00Z') }, { at: new Date('2026-01-01T00:00:00Z') });
+  assert.deepEqual(diff, { before: {}, after: {} });
+});
+
+test('auditEventsToCsv writes a header and one row per event', () => {
+  const csv = auditEventsToCsv([csvEvent({ after: { role: 'admin' } })]);
+  const [header, row] = csv.trimEnd().split('\n');
+
+  assert.equal(header, 'id,createdAt,actorId,actorUsername,action,targetType,targetId,before,after,ipAddress,userAgent');
+  assert.equal(row, '1,2026-10-19T12:00:00.000Z,7,admin,user.role.update,user,42,,"{""role"":""admin""}",,');
+});
+
+test('auditEventsToCsv defuses spreadsheet formulas', () => {
+  for (const formula of ['=1+1', '+SUM(A1)', '-2', '@cmd']) {
+    const row = auditEventsToCsv([csvEvent({ userAgent: formula })]).trimEnd().split('\n')[1];
+    assert.ok(row.endsWith(`,'${formula}`), row);
+  }
+});
+
+test('auditEventsToCsv quotes values with separators or line breaks', () => {
+  const row = auditEventsToCsv([csvEvent({ userAgent: 'a,"b"\nc' })]).trimEnd().split('\n').slice(1).join('\n');
+  assert.ok(row.endsWith(',"a,""b""\nc"'), row);
+});
+
+test('parseRangeEnd makes a date-only bound cover the whole day', () => {
+  assert.deepEqual(parseRangeEnd('2026-10-19'), { before: new Date('2026-10-20T00:00:00Z') });
+});
+
+test('parseRangeEnd keeps full timestamps inclusive and rejects invalid dates', () => {
+  assert.deepEqual(parseRangeEnd('2026-10-19T15:30:00Z'), { to: new Date('2026-10-19T15:30:00Z') });
+  assert.equal(parseRangeEnd('yesterday'), null);
+});
@@ -0,0 +1,175 @@
+import { and, desc, eq, gte, lt, lte, count, type SQL } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { auditEvents, users } from '../db/schema.js';
+
+export interface AuditEventInput {
+  actorId: number;
+  action: string;
+  targetType: string;
+  targetId?: string | number | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditFilters {
+  actorId?: number;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date; // Inclusive
+  before?: Date; // Exclusive
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Upper bound of a date range: a date-only value ("2026-10-19") covers that whole day. Null when invalid.
+export function parseRangeEnd(value: string): Pick<AuditFilters, 'to' | 'before'> | null {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  if (DATE_ONLY.test(value.trim())) {
+    return { before: new Date(date.getTime() + 24 * 60 * 60 * 1000) };
+  }
+  return { to: date };
+}
+
+// Never write secrets to the audit log
+const REDACTED_FIELDS = new Set(['password', 'totpSecret', 'totpRecoveryCodes']);
+
+function serializeValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// Reduce two snapshots to the fields that actually changed
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): { before: Record<string, unknown> | null; after: Record<string, unknown> | null } {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of keys) {
+    if (REDACTED_FIELDS.has(key) || key === 'updatedAt') {
+      continue;
+    }
+
+    const oldValue = serializeValue(before?.[key]);
+    const newValue = serializeValue(after?.[key]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+      continue;
+    }
+
+    if (before) changedBefore[key] = oldValue ?? null;
+    if (after) changedAfter[key] = newValue ?? null;
+  }
+
+  return {
+    before: before ? changedBefore : null,
+    after: after ? changedAfter : null,
+  };
+}
+
+// Store an audit event; failures are logged but never undo the action being audited
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  try {
+    const diff = diffRecords(event.before, event.after);
+
+    await db.insert(auditEvents).values({
+      actorId: event.actorId,
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId != null ? String(event.targetId) : null,
+      before: diff.before ? JSON.stringify(diff.before) : null,
+      after: diff.after ? JSON.stringify(diff.after) : null,
+      ipAddress: event.ipAddress || null,
+      userAgent: event.userAgent || null,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${event.action}:`, error, event);
+  }
+}
+
+function buildConditions(filters: AuditFilters): SQL | undefined {
+  const conditions: SQL[] = [];
+
+  if (filters.actorId) conditions.push(eq(auditEvents.actorId, filters.actorId));
+  if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+  if (filters.targetType) conditions.push(eq(auditEvents.targetType, filters.targetType));
+  if (filters.targetId) conditions.push(eq(auditEvents.targetId, filters.targetId));
+  if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+  if (filters.before) conditions.push(lt(auditEvents.createdAt, filters.before));
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+// Newest events first, with the actor's username for display
+export async function queryAuditEvents(filters: AuditFilters, limit: number, offset: number = 0) {
+  const where = buildConditions(filters);
+
+  const events = await db
+    .select({
+      id: auditEvents.id,
+      createdAt: auditEvents.createdAt,
+      actorId: auditEvents.actorId,
+      actorUsername: users.username,
+      action: auditEvents.action,
+      targetType: auditEvents.targetType,
+      targetId: auditEvents.targetId,
+      before: auditEvents.before,
+      after: auditEvents.after,
+      ipAddress: auditEvents.ipAddress,
+      userAgent: auditEvents.userAgent,
+    })
+    .from(auditEvents)
+    .leftJoin(users, eq(auditEvents.actorId, users.id))
+    .where(where)
+    .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+    .limit(limit)
+    .offset(offset);
+
+  const total = await db.select({ count: count() }).from(auditEvents).where(where);
+
+  return {
+    events: events.map((event) => ({
+      ...event,
+      before: event.before ? JSON.parse(event.before) : null,
+      after: event.after ? JSON.parse(event.after) : null,
+    })),
+    total: total[0].count,
+  };
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Quote everything that could break the row, and defuse spreadsheet formulas
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function auditEventsToCsv(events: Awaited<ReturnType<typeof queryAuditEvents>>['events']): string {
+  const columns = [
+    'id',
+    'createdAt',
+    'actorId',
+    'actorUsername',
+    'action',
+    'targetType',
+    'targetId',
+    'before',
+    'after',
+    'ipAddress',
+    'userAgent',
+  ] as const;
+
+  const rows = events.map((event) => columns.map((column) => escapeCsv(event[column])).join(','));
+  return [columns.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,88 @@
+import { and, count, eq, isNotNull, isNull } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users, userIdentities } from '../db/schema.js';
+
+// Find the user linked to an external identity, if any
+export async function findUserIdByIdentity(provider: string, providerUserId: string): Promise<number | null> {
+  const identity = await db
+    .select({ userId: userIdentities.userId })
+    .from(userIdentities)
+    .where(
+      and(
+        eq(userIdentities.provider, provider),
+        eq(userIdentities.providerUserId, providerUserId),
+        isNull(userIdentities.unlinkedAt)
+      )
+    )
+    .limit(1);
+
+  return identity.length > 0 ? identity[0].userId : null;
+}
+
+// Whether the user removed this identity from their account
+export async function wasIdentityUnlinked(userId: number, provider: string, providerUserId: string): Promise<boolean> {
+  const identity = await db
+    .select({ id: userIdentities.id })
+    .from(userIdentities)
+    .where(
+      and(
+        eq(userIdentities.userId, userId),
+        eq(userIdentities.provider, provider),
+        eq(userIdentities.providerUserId, providerUserId),
+        isNotNull(userIdentities.unlinkedAt)
+      )
+    )
+    .limit(1);
+
+  return identity.length > 0;
+}
+
+// Link an external identity to a user. Callers make sure it is not linked to someone else;
+// a previously unlinked identity is taken over.
+export async function linkIdentity(
+  userId: number,
+  provider: string,
+  providerUserId: string,
+  email?: string | null
+): Promise<void> {
+  await db
+    .insert(userIdentities)
+    .values({ userId, provider, providerUserId, email: email || null })
+    .onConflictDoUpdate({
+      target: [userIdentities.provider, userIdentities.providerUserId],
+      set: { userId, email: email || null, unlinkedAt: null },
+    });
+}
+
+// Remove an identity from its user's sign-in methods
+export async function unlinkIdentity(identityId: number): Promise<void> {
+  await db.update(userIdentities).set({ unlinkedAt: new Date() }).where(eq(userIdentities.id, identityId));
+}
+
+export async function listIdentities(userId: number) {
+  return db
+    .select({
+      id: userIdentities.id,
+      provider: userIdentities.provider,
+      email: userIdentities.email,
+      createdAt: userIdentities.createdAt,
+    })
+    .from(userIdentities)
+    .where(and(eq(userIdentities.userId, userId), isNull(userIdentities.unlinkedAt)));
+}
+
+// Number of ways a user can currently sign in (password + linked identities)
+export async function countLoginMethods(userId: number): Promise<number> {
+  const user = await db
+    .select({ password: users.password })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const identities = await db
+    .select({ count: count() })
+    .from(userIdentities)
+    .where(and(eq(userIdentities.userId, userId), isNull(userIdentities.unlinkedAt)));
+
+  return (user[0]?.password ? 1 : 0) + identities[0].count;
+}
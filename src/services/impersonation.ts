@@ -0,0 +1,65 @@
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users } from '../db/schema.js';
+import { redis } from '../utils/redis.js';
+import { generateImpersonationToken } from '../config/jwt.js';
+import { roleHasPermission } from './permissions.js';
+
+// Support sessions are deliberately short and cannot be refreshed
+export const IMPERSONATION_TTL = parseInt(process.env.IMPERSONATION_TTL_SECONDS || '') || 15 * 60;
+
+interface ImpersonationRecord {
+  adminId: number;
+  userId: number;
+  startedAt: number;
+}
+
+const impersonationKey = (impersonationId: string) => `auth:impersonation:${impersonationId}`;
+
+// Start impersonating a user and issue the marked access token
+export async function startImpersonation(adminId: number, user: any) {
+  const impersonationId = randomUUID();
+  const record: ImpersonationRecord = { adminId, userId: user.id, startedAt: Date.now() };
+
+  await redis.setEx(impersonationKey(impersonationId), IMPERSONATION_TTL, JSON.stringify(record));
+
+  return {
+    impersonationId,
+    token: generateImpersonationToken(user, adminId, impersonationId, IMPERSONATION_TTL),
+    expiresAt: new Date(record.startedAt + IMPERSONATION_TTL * 1000),
+  };
+}
+
+// Check that an impersonation token still belongs to a live support session, started by an admin
+// who is still active and still allowed to impersonate
+export async function isImpersonationActive(impersonationId: string, userId: number, adminId: number): Promise<boolean> {
+  const raw = await redis.get(impersonationKey(impersonationId));
+  if (!raw) {
+    return false;
+  }
+  const record: ImpersonationRecord = JSON.parse(raw);
+  if (record.userId !== userId || record.adminId !== adminId) {
+    return false;
+  }
+
+  const admin = await db
+    .select({ role: users.role, isActive: users.isActive, deletedAt: users.deletedAt })
+    .from(users)
+    .where(eq(users.id, adminId))
+    .limit(1);
+  if (
+    admin.length === 0 ||
+    admin[0].isActive === false ||
+    admin[0].deletedAt ||
+    !(await roleHasPermission(admin[0].role, 'users:impersonate'))
+  ) {
+    await endImpersonation(impersonationId);
+    return false;
+  }
+  return true;
+}
+
+export async function endImpersonation(impersonationId: string): Promise<void> {
+  await redis.del(impersonationKey(impersonationId));
+}
@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLevel, toJsonResume } from './json-resume.js';
+import type { VisiblePortfolio } from './portfolio.js';
+
+// Only the fields the export reads
+const portfolio = {
+  profile: {
+    name: 'Ada',
+    lastname: 'Lovelace',
+    username: 'ada',
+    headline: 'Analyst',
+    bio: null,
+    email: 'ada@example.com',
+    websiteUrl: null,
+    location: 'London',
+    profilePicture: null,
+    googleProfilePicture: 'https://example.com/ada.png',
+    githubUrl: 'https://github.com/ada',
+    linkedinUrl: null,
+    xUrl: null,
+    experience: [
+      {
+        company: 'Analytical Engines',
+        title: 'Programmer',
+        location: null,
+        startDate: '1842-01-01',
+        endDate: null,
+        description: 'Notes on the engine',
+      },
+    ],
+    education: [],
+    isRestricted: false,
+  },
+  skills: {
+    math: [
+      { name: 'Calculus', level: 5 },
+      { name: 'Algebra', level: 5 },
+      { name: 'Statistics', level: 3 },
+    ],
+  },
+  projects: [
+    {
+      title: 'Note G',
+      description: 'Bernoulli numbers',
+      technologies: ['engine'],
+      demoUrl: null,
+      githubUrl: 'https://github.com/ada/note-g',
+      createdAt: new Date('2024-05-06T10:00:00Z'),
+    },
+  ],
+  roadmaps: null,
+  certificates: null,
+} as unknown as VisiblePortfolio;
+
+test('toJsonResume maps the profile onto basics', () => {
+  const { basics } = toJsonResume(portfolio);
+  assert.deepEqual(basics, {
+    name: 'Ada Lovelace',
+    label: 'Analyst',
+    image: 'https://example.com/ada.png',
+    email: 'ada@example.com',
+    url: undefined,
+    summary: undefined,
+    location: { city: 'London' },
+    profiles: [{ network: 'GitHub', url: 'https://github.com/ada' }],
+  });
+});
+
+test('toJsonResume groups skills by category and level, highest first', () => {
+  assert.deepEqual(toJsonResume(portfolio).skills, [
+    { name: 'math', level: 'Expert', keywords: ['Calculus', 'Algebra'] },
+    { name: 'math', level: 'Intermediate', keywords: ['Statistics'] },
+  ]);
+});
+
+test('toJsonResume maps work, projects and the canonical link', () => {
+  const resume = toJsonResume(portfolio);
+  assert.deepEqual(resume.work, [
+    {
+      name: 'Analytical Engines',
+      position: 'Programmer',
+      location: undefined,
+      startDate: '1842-01-01',
+      endDate: undefined,
+      summary: 'Notes on the engine',
+    },
+  ]);
+  assert.deepEqual(resume.projects, [
+    {
+      name: 'Note G',
+      description: 'Bernoulli numbers',
+      keywords: ['engine'],
+      url: 'https://github.com/ada/note-g',
+      startDate: '2024-05-06',
+    },
+  ]);
+  assert.equal(resume.meta.canonical, '/api/u/ada');
+});
+
+test('parseLevel reads labels, aliases and numbers', () => {
+  assert.equal(parseLevel('Advanced'), 4);
+  assert.equal(parseLevel(' expert '), 5);
+  assert.equal(parseLevel('proficient'), 4);
+  assert.equal(parseLevel('3'), 3);
+  assert.equal(parseLevel('2 / 5'), 2);
+  assert.equal(parseLevel(7), 5);
+  assert.equal(parseLevel(0.2), 1);
+});
+
+test('parseLevel falls back to the lowest level', () => {
+  assert.equal(parseLevel('wizard'), 1);
+  assert.equal(parseLevel('toString'), 1);
+  assert.equal(parseLevel(null), 1);
+});
@@ -0,0 +1,440 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users, skills, projects } from '../db/schema.js';
+import { diffRecords } from './audit.js';
+import { validateProfileDetails, ProfileValidationError } from './professional-profile.js';
+import type { VisiblePortfolio } from './portfolio.js';
+import { parseTechnologies } from '../utils/technologies.js';
+
+// https://jsonresume.org/schema
+const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+// skills.level 1-5 as JSON Resume level names
+const SKILL_LEVEL_LABELS = ['Beginner', 'Elementary', 'Intermediate', 'Advanced', 'Expert'];
+
+// Other level names seen in the wild
+const SKILL_LEVEL_ALIASES: Record<string, number> = {
+  novice: 1,
+  basic: 1,
+  fundamental: 2,
+  competent: 3,
+  proficient: 4,
+  master: 5,
+};
+
+// JSON Resume network names for the profile link columns
+const SOCIAL_NETWORKS = {
+  github: { field: 'githubUrl', baseUrl: 'https://github.com/' },
+  linkedin: { field: 'linkedinUrl', baseUrl: 'https://www.linkedin.com/in/' },
+  x: { field: 'xUrl', baseUrl: 'https://x.com/' },
+  twitter: { field: 'xUrl', baseUrl: 'https://x.com/' },
+} as const;
+
+const MAX_IMPORTED_SKILLS = 200;
+const MAX_IMPORTED_PROJECTS = 100;
+
+export class ResumeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResumeImportError';
+  }
+}
+
+function toDateString(value: Date | string | null): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return (typeof value === 'string' ? value : value.toISOString()).slice(0, 10);
+}
+
+function toLevelLabel(level: number): string {
+  return SKILL_LEVEL_LABELS[Math.min(Math.max(level, 1), 5) - 1];
+}
+
+// "Advanced", "4", "4/5" -> 4; unknown levels fall back to the table default
+export function parseLevel(level: unknown): number {
+  if (typeof level === 'number') {
+    return Math.min(Math.max(Math.round(level), 1), 5);
+  }
+  if (typeof level !== 'string') {
+    return 1;
+  }
+
+  const normalized = level.trim().toLowerCase();
+  const numeric = normalized.match(/^([1-5])(\s*\/\s*5)?$/);
+  if (numeric) {
+    return parseInt(numeric[1]);
+  }
+
+  const labelIndex = SKILL_LEVEL_LABELS.findIndex((label) => label.toLowerCase() === normalized);
+  if (labelIndex >= 0) {
+    return labelIndex + 1;
+  }
+  return Object.hasOwn(SKILL_LEVEL_ALIASES, normalized) ? SKILL_LEVEL_ALIASES[normalized] : 1;
+}
+
+// Export a portfolio in the JSON Resume format
+export function toJsonResume(portfolio: VisiblePortfolio) {
+  const { profile } = portfolio;
+
+  const socialProfiles = [
+    profile.githubUrl && { network: 'GitHub', url: profile.githubUrl },
+    profile.linkedinUrl && { network: 'LinkedIn', url: profile.linkedinUrl },
+    profile.xUrl && { network: 'X', url: profile.xUrl },
+  ].filter((entry): entry is { network: string; url: string } => Boolean(entry));
+
+  // One entry per category and level, so every skill keeps its own level on import
+  const skillEntries: { name: string; level: string; keywords: string[] }[] = [];
+  for (const [category, categorySkills] of Object.entries(portfolio.skills || {})) {
+    for (let level = 5; level >= 1; level--) {
+      const keywords = categorySkills.filter((skill) => skill.level === level).map((skill) => skill.name);
+      if (keywords.length > 0) {
+        skillEntries.push({ name: category, level: toLevelLabel(level), keywords });
+      }
+    }
+  }
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: `${profile.name} ${profile.lastname}`,
+      label: profile.headline || undefined,
+      image: profile.profilePicture || profile.googleProfilePicture || undefined,
+      email: profile.email || undefined,
+      url: profile.websiteUrl || undefined,
+      summary: profile.bio || undefined,
+      location: profile.location ? { city: profile.location } : undefined,
+      profiles: socialProfiles,
+    },
+    work: profile.experience.map((job) => ({
+      name: job.company,
+      position: job.title,
+      location: job.location || undefined,
+      startDate: toDateString(job.startDate),
+      endDate: toDateString(job.endDate),
+      summary: job.description || undefined,
+    })),
+    education: profile.education.map((school) => ({
+      institution: school.school,
+      studyType: school.degree || undefined,
+      area: school.fieldOfStudy || undefined,
+      startDate: toDateString(school.startDate),
+      endDate: toDateString(school.endDate),
+    })),
+    skills: skillEntries,
+    projects: (portfolio.projects || []).map((project) => ({
+      name: project.title,
+      description: project.description || undefined,
+      keywords: project.technologies,
+      url: project.demoUrl || project.githubUrl || undefined,
+      startDate: toDateString(project.createdAt),
+    })),
+    meta: {
+      canonical: profile.username ? `/api/u/${profile.username}` : undefined,
+      lastModified: new Date().toISOString(),
+    },
+  };
+}
+
+function asObject(value: unknown, field: string): Record<string, any> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ResumeImportError(`${field} must be an object`);
+  }
+  return value as Record<string, any>;
+}
+
+function asArray(value: unknown, field: string, maxLength: number): any[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new ResumeImportError(`${field} must be an array`);
+  }
+  if (value.length > maxLength) {
+    throw new ResumeImportError(`${field} can have at most ${maxLength} entries`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Map JSON Resume basics onto user columns; only fields present in the document are changed
+function mapBasics(basics: Record<string, any>, warnings: string[]) {
+  const changes: Record<string, unknown> = {};
+
+  const fullName = optionalString(basics.name);
+  if (fullName) {
+    const [name, ...rest] = fullName.split(/\s+/);
+    changes.name = name;
+    if (rest.length > 0) {
+      changes.lastname = rest.join(' ');
+    }
+  }
+
+  const details: Record<string, unknown> = {};
+  if (basics.label !== undefined) details.headline = basics.label;
+  if (basics.summary !== undefined) details.bio = basics.summary;
+  if (basics.url !== undefined) details.websiteUrl = basics.url;
+
+  if (basics.location !== undefined) {
+    const location = asObject(basics.location, 'basics.location');
+    const parts = [location.city, location.region, location.countryCode].map(optionalString).filter(Boolean);
+    details.location = parts.length > 0 ? parts.join(', ') : null;
+  }
+
+  for (const [index, entry] of asArray(basics.profiles, 'basics.profiles', 20).entries()) {
+    const socialProfile = asObject(entry, `basics.profiles[${index}]`);
+    const network = optionalString(socialProfile.network)?.toLowerCase();
+    const mapping = network && Object.hasOwn(SOCIAL_NETWORKS, network)
+      ? SOCIAL_NETWORKS[network as keyof typeof SOCIAL_NETWORKS]
+      : undefined;
+    if (!mapping) {
+      warnings.push(`basics.profiles[${index}]: network '${socialProfile.network}' is not supported and was skipped`);
+      continue;
+    }
+
+    const username = optionalString(socialProfile.username);
+    details[mapping.field] = optionalString(socialProfile.url) || (username ? `${mapping.baseUrl}${username}` : null);
+  }
+
+  try {
+    return { ...changes, ...validateProfileDetails(details) };
+  } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      throw new ResumeImportError(`basics: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+interface ImportedSkill {
+  name: string;
+  category: string;
+  level: number;
+}
+
+// Entries with keywords describe a category ("Backend": ["Node.js", "Postgres"]); entries without
+// keywords are a single skill
+function mapSkills(entries: any[], warnings: string[]): ImportedSkill[] {
+  const imported = new Map<string, ImportedSkill>();
+
+  for (const [index, entry] of entries.entries()) {
+    const skill = asObject(entry, `skills[${index}]`);
+    const name = optionalString(skill.name);
+    const keywords = asArray(skill.keywords, `skills[${index}].keywords`, MAX_IMPORTED_SKILLS)
+      .map(optionalString)
+      .filter((keyword): keyword is string => Boolean(keyword));
+    const level = parseLevel(skill.level);
+
+    if (!name && keywords.length === 0) {
+      warnings.push(`skills[${index}] has no name and was skipped`);
+      continue;
+    }
+
+    const category = (keywords.length > 0 && name ? name : 'other').toLowerCase().slice(0, 50);
+    for (const skillName of keywords.length > 0 ? keywords : [name!]) {
+      imported.set(skillName.toLowerCase(), { name: skillName, category, level });
+    }
+  }
+
+  if (imported.size > MAX_IMPORTED_SKILLS) {
+    throw new ResumeImportError(`A resume can contain at most ${MAX_IMPORTED_SKILLS} skills`);
+  }
+  return [...imported.values()];
+}
+
+interface ImportedProject {
+  title: string;
+  description: string | null;
+  content: string | null;
+  technologies: string[];
+  demoUrl: string | null;
+  githubUrl: string | null;
+}
+
+function mapProjects(entries: any[], warnings: string[]): ImportedProject[] {
+  const imported = new Map<string, ImportedProject>();
+
+  for (const [index, entry] of entries.entries()) {
+    const project = asObject(entry, `projects[${index}]`);
+    const title = optionalString(project.name);
+    if (!title) {
+      warnings.push(`projects[${index}] has no name and was skipped`);
+      continue;
+    }
+
+    const highlights = asArray(project.highlights, `projects[${index}].highlights`, 50)
+      .map(optionalString)
+      .filter(Boolean);
+    const url = optionalString(project.url) || null;
+    const isRepository = url !== null && /^https?:\/\/(www\.)?github\.com\//i.test(url);
+
+    imported.set(title.toLowerCase(), {
+      title,
+      description: optionalString(project.description) || null,
+      content: highlights.length > 0 ? highlights.map((highlight) => `- ${highlight}`).join('\n') : null,
+      technologies: asArray(project.keywords, `projects[${index}].keywords`, 50)
+        .map(optionalString)
+        .filter((keyword): keyword is string => Boolean(keyword)),
+      demoUrl: isRepository ? null : url,
+      githubUrl: isRepository ? url : null,
+    });
+  }
+
+  return [...imported.values()];
+}
+
+// Work out what importing a JSON Resume document would change, without writing anything
+export async function planResumeImport(userId: number, document: unknown) {
+  const resume = asObject(document, 'resume');
+  const warnings: string[] = [];
+
+  for (const section of ['work', 'education', 'certificates', 'awards', 'volunteer', 'publications']) {
+    if (Array.isArray(resume[section]) && resume[section].length > 0) {
+      warnings.push(`${section} is not imported`);
+    }
+  }
+
+  const basics = asObject(resume.basics, 'basics');
+  const profileChanges = mapBasics(basics, warnings);
+  const importedSkills = mapSkills(asArray(resume.skills, 'skills', MAX_IMPORTED_SKILLS), warnings);
+  const importedProjects = mapProjects(asArray(resume.projects, 'projects', MAX_IMPORTED_PROJECTS), warnings);
+
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) {
+    throw new ResumeImportError('User not found');
+  }
+  // Email changes need verification, so they go through the profile instead
+  const email = optionalString(basics.email)?.toLowerCase();
+  if (email && email !== user.email) {
+    warnings.push('basics.email was ignored; change your email from your profile so it can be verified');
+  }
+
+  const existingSkills = await db.select().from(skills).where(eq(skills.userId, userId));
+  const existingProjects = await db.select().from(projects).where(eq(projects.userId, userId));
+
+  // Profile: only the fields whose value actually changes
+  const currentProfile = Object.fromEntries(
+    Object.keys(profileChanges).map((field) => [field, user[field as keyof typeof user]])
+  );
+  const profileDiff = diffRecords(currentProfile, profileChanges);
+
+  // Skills are matched by name, projects by title (both case-insensitive)
+  const skillsByName = new Map(existingSkills.map((skill) => [skill.name.toLowerCase(), skill]));
+  const skillChanges = {
+    create: [] as ImportedSkill[],
+    update: [] as { id: number; name: string; before: Record<string, unknown>; after: Record<string, unknown> }[],
+    unchanged: 0,
+  };
+  for (const skill of importedSkills) {
+    const existing = skillsByName.get(skill.name.toLowerCase());
+    if (!existing) {
+      skillChanges.create.push(skill);
+      continue;
+    }
+
+    const diff = diffRecords(
+      { category: existing.category, level: existing.level },
+      { category: skill.category, level: skill.level }
+    );
+    if (Object.keys(diff.after!).length === 0) {
+      skillChanges.unchanged++;
+    } else {
+      skillChanges.update.push({ id: existing.id, name: existing.name, before: diff.before!, after: diff.after! });
+    }
+  }
+
+  const projectsByTitle = new Map(existingProjects.map((project) => [project.title.toLowerCase(), project]));
+  const projectChanges = {
+    create: [] as ImportedProject[],
+    update: [] as { id: number; title: string; before: Record<string, unknown>; after: Record<string, unknown> }[],
+    unchanged: 0,
+  };
+  for (const project of importedProjects) {
+    const existing = projectsByTitle.get(project.title.toLowerCase());
+    if (!existing) {
+      projectChanges.create.push(project);
+      continue;
+    }
+
+    // Empty fields in the resume never wipe what is already stored
+    const incoming: Record<string, unknown> = {};
+    if (project.description) incoming.description = project.description;
+    if (project.content) incoming.content = project.content;
+    if (project.technologies.length > 0) incoming.technologies = project.technologies;
+    if (project.demoUrl) incoming.demoUrl = project.demoUrl;
+    if (project.githubUrl) incoming.githubUrl = project.githubUrl;
+
+    const current = {
+      description: existing.description,
+      content: existing.content,
+      technologies: parseTechnologies(existing.technologies),
+      demoUrl: existing.demoUrl,
+      githubUrl: existing.githubUrl,
+    };
+    const diff = diffRecords(
+      Object.fromEntries(Object.keys(incoming).map((field) => [field, current[field as keyof typeof current]])),
+      incoming
+    );
+    if (Object.keys(diff.after!).length === 0) {
+      projectChanges.unchanged++;
+    } else {
+      projectChanges.update.push({ id: existing.id, title: existing.title, before: diff.before!, after: diff.after! });
+    }
+  }
+
+  return {
+    profile: { before: profileDiff.before!, after: profileDiff.after! },
+    skills: skillChanges,
+    projects: projectChanges,
+    warnings,
+  };
+}
+
+export type ResumeImportPlan = Awaited<ReturnType<typeof planResumeImport>>;
+
+// Write a planned import in one transaction; new projects start as drafts
+export async function applyResumeImport(userId: number, plan: ResumeImportPlan): Promise<void> {
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    if (Object.keys(plan.profile.after).length > 0) {
+      await tx
+        .update(users)
+        .set({ ...plan.profile.after, updatedAt: now })
+        .where(eq(users.id, userId));
+    }
+
+    for (const skill of plan.skills.create) {
+      await tx.insert(skills).values({ ...skill, userId });
+    }
+    for (const skill of plan.skills.update) {
+      await tx.update(skills).set({ ...skill.after, updatedAt: now }).where(eq(skills.id, skill.id));
+    }
+
+    for (const project of plan.projects.create) {
+      await tx.insert(projects).values({
+        ...project,
+        technologies: JSON.stringify(project.technologies),
+        status: 'draft',
+        userId,
+      });
+    }
+    for (const project of plan.projects.update) {
+      const { technologies, ...fields } = project.after;
+      await tx
+        .update(projects)
+        .set({
+          ...fields,
+          ...(technologies !== undefined ? { technologies: JSON.stringify(technologies) } : {}),
+          updatedAt: now,
+        })
+        .where(eq(projects.id, project.id));
+    }
+  });
+}
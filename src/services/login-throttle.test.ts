@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDelaySeconds, loginThrottleKeys } from './login-throttle.js';
+
+// Defaults: 3 free attempts, lockout after 10 failures for 15 minutes, IPs get 5x the allowance
+
+test('the first failures are free', () => {
+  assert.equal(getDelaySeconds('user', 0), 0);
+  assert.equal(getDelaySeconds('user', 2), 0);
+  assert.equal(getDelaySeconds('2fa', 2), 0);
+});
+
+test('each further failure doubles the wait', () => {
+  assert.equal(getDelaySeconds('user', 3), 1);
+  assert.equal(getDelaySeconds('user', 4), 2);
+  assert.equal(getDelaySeconds('user', 5), 4);
+  assert.equal(getDelaySeconds('password', 9), 64);
+});
+
+test('too many failures lock the key out', () => {
+  assert.equal(getDelaySeconds('user', 10), 15 * 60);
+  assert.equal(getDelaySeconds('user', 25), 15 * 60);
+});
+
+test('IP keys get a more generous allowance', () => {
+  assert.equal(getDelaySeconds('ip', 14), 0);
+  assert.equal(getDelaySeconds('ip', 15), 1);
+  assert.equal(getDelaySeconds('ip', 20), 2);
+  assert.equal(getDelaySeconds('ip', 49), 64);
+  assert.equal(getDelaySeconds('ip', 50), 15 * 60);
+});
+
+test('login attempts are throttled per username and per IP', () => {
+  assert.deepEqual(loginThrottleKeys('alice', '203.0.113.7'), [
+    { scope: 'user', identifier: 'alice' },
+    { scope: 'ip', identifier: '203.0.113.7' },
+  ]);
+});
@@ -0,0 +1,115 @@
+import { redis } from '../utils/redis.js';
+
+// The first few failures are free, then each one doubles the wait until the hard lockout
+const FREE_ATTEMPTS = parseInt(process.env.LOGIN_FREE_ATTEMPTS || '') || 3;
+const MAX_FAILURES = parseInt(process.env.LOGIN_MAX_FAILURES || '') || 10;
+const LOCKOUT_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_SECONDS || '') || 15 * 60;
+
+// An IP may front many users (offices, NAT), so it gets a more generous limit
+const IP_FAILURE_MULTIPLIER = 5;
+
+// Failure counts are forgotten after a quiet period without further failures
+const FAILURE_WINDOW_SECONDS = 60 * 60;
+
+export type ThrottleScope = 'user' | 'ip' | '2fa' | 'password';
+
+export interface ThrottleKey {
+  scope: ThrottleScope;
+  identifier: string;
+}
+
+export interface LockoutInfo extends ThrottleKey {
+  failures: number;
+  retryAfter: number;
+}
+
+export const THROTTLE_SCOPES: ThrottleScope[] = ['user', 'ip', '2fa', 'password'];
+
+const failuresKey = ({ scope, identifier }: ThrottleKey) => `auth:throttle:${scope}:${identifier.toLowerCase()}:failures`;
+const lockKey = ({ scope, identifier }: ThrottleKey) => `auth:throttle:${scope}:${identifier.toLowerCase()}:lock`;
+
+// Seconds to wait after the given number of failures for a key of this scope
+export function getDelaySeconds(scope: ThrottleScope, failures: number): number {
+  const multiplier = scope === 'ip' ? IP_FAILURE_MULTIPLIER : 1;
+
+  if (failures >= MAX_FAILURES * multiplier) {
+    return LOCKOUT_SECONDS;
+  }
+  if (failures < FREE_ATTEMPTS * multiplier) {
+    return 0;
+  }
+
+  const exponent = Math.floor(failures / multiplier) - FREE_ATTEMPTS;
+  return Math.min(2 ** exponent, LOCKOUT_SECONDS);
+}
+
+// Seconds until every given key may attempt again (0 when none is locked)
+export async function getRetryAfter(keys: ThrottleKey[]): Promise<number> {
+  let retryAfter = 0;
+
+  for (const key of keys) {
+    const ttl = await redis.ttl(lockKey(key));
+    if (ttl > retryAfter) {
+      retryAfter = ttl;
+    }
+  }
+
+  return retryAfter;
+}
+
+// Count a failed attempt against every key and apply its backoff; returns the resulting wait
+export async function recordFailure(keys: ThrottleKey[]): Promise<number> {
+  let retryAfter = 0;
+
+  for (const key of keys) {
+    const failures = await redis.incr(failuresKey(key));
+    await redis.expire(failuresKey(key), Math.max(FAILURE_WINDOW_SECONDS, LOCKOUT_SECONDS));
+
+    const delay = getDelaySeconds(key.scope, failures);
+    if (delay > 0) {
+      await redis.setEx(lockKey(key), delay, String(failures));
+      if (delay === LOCKOUT_SECONDS) {
+        console.warn(`Login lockout for ${key.scope} "${key.identifier}" after ${failures} failures`);
+      }
+    }
+
+    retryAfter = Math.max(retryAfter, delay);
+  }
+
+  return retryAfter;
+}
+
+// Forget failures after a successful attempt
+export async function clearFailures(keys: ThrottleKey[]): Promise<void> {
+  await redis.del(keys.flatMap((key) => [failuresKey(key), lockKey(key)]));
+}
+
+// List every identifier with recorded failures, most failures first
+export async function listLockouts(): Promise<LockoutInfo[]> {
+  const lockouts: LockoutInfo[] = [];
+
+  for await (const batch of redis.scanIterator({ MATCH: 'auth:throttle:*:failures', COUNT: 100 })) {
+    for (const redisKey of batch) {
+      const [, , scope, ...rest] = redisKey.split(':');
+      const key: ThrottleKey = {
+        scope: scope as ThrottleScope,
+        // Identifiers such as IPv6 addresses may themselves contain colons
+        identifier: rest.slice(0, -1).join(':'),
+      };
+
+      const failures = parseInt((await redis.get(redisKey)) || '0');
+      const retryAfter = Math.max(await redis.ttl(lockKey(key)), 0);
+      lockouts.push({ ...key, failures, retryAfter });
+    }
+  }
+
+  return lockouts.sort((a, b) => b.failures - a.failures);
+}
+
+// Login keys: the attempted username plus the client IP
+export function loginThrottleKeys(username: string, ip: string): ThrottleKey[] {
+  return [
+    { scope: 'user', identifier: username },
+    { scope: 'ip', identifier: ip },
+  ];
+}
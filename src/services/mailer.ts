@@ -0,0 +1,97 @@
+import nodemailer from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import 'dotenv/config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'MySkl <no-reply@myskl.local>';
+
+// SMTP driver for real delivery
+function createSmtpTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+}
+
+// File driver writes each message to disk so flows can be tested without a mail server
+function createFileTransport(): MailTransport {
+  const outputDir = process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), 'logs', 'mail');
+
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(outputDir, { recursive: true });
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const filePath = path.join(outputDir, `${Date.now()}-${safeRecipient}.json`);
+      await writeFile(filePath, JSON.stringify({ from: MAIL_FROM, ...message }, null, 2));
+      console.log(`📧 Mail to ${message.to} written to ${filePath}`);
+    },
+  };
+}
+
+// Console driver just logs the message (default for local development)
+function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log('📧 Outgoing mail:', {
+        from: MAIL_FROM,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+      });
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+// Pick the driver configured by MAIL_DRIVER (smtp, file or console)
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const driver = process.env.MAIL_DRIVER || 'console';
+
+    if (driver === 'smtp') {
+      transport = createSmtpTransport();
+    } else if (driver === 'file') {
+      transport = createFileTransport();
+    } else {
+      transport = createConsoleTransport();
+    }
+  }
+
+  return transport;
+}
+
+// Send an email through the configured driver
+export async function sendMail(message: MailMessage): Promise<void> {
+  try {
+    await getMailTransport().send(message);
+  } catch (error) {
+    console.error('Error sending mail:', error);
+    throw error;
+  }
+}
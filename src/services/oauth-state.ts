@@ -0,0 +1,33 @@
+import { createHash, randomBytes } from 'crypto';
+import { redis } from '../utils/redis.js';
+
+// Authorization requests must be completed within 10 minutes
+const OAUTH_STATE_TTL = 600;
+
+export interface OAuthStateRecord {
+  provider: string;
+  codeVerifier: string;
+  mode: 'login' | 'link';
+  userId?: number;
+}
+
+const stateKey = (state: string) => `oauth:state:${state}`;
+
+// Create a one-time state value and PKCE pair for an authorization request
+export async function createOAuthState(
+  record: Omit<OAuthStateRecord, 'codeVerifier'>
+): Promise<{ state: string; codeChallenge: string }> {
+  const state = randomBytes(24).toString('base64url');
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+  await redis.setEx(stateKey(state), OAUTH_STATE_TTL, JSON.stringify({ ...record, codeVerifier }));
+
+  return { state, codeChallenge };
+}
+
+// Look up and delete a state value; null when unknown, expired or already used
+export async function consumeOAuthState(state: string): Promise<OAuthStateRecord | null> {
+  const raw = await redis.getDel(stateKey(state));
+  return raw ? JSON.parse(raw) : null;
+}
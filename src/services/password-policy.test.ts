@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import bcrypt from 'bcryptjs';
+import { validatePassword, passwordPolicyError, needsRehash } from './password-policy.js';
+
+const codes = (password: unknown, context = {}) => validatePassword(password, context).map((violation) => violation.code);
+
+test('a long, mixed password passes', () => {
+  assert.deepEqual(codes('correct-Horse-battery'), []);
+});
+
+test('short and single-class passwords are rejected', () => {
+  assert.deepEqual(codes('aB3'), ['too_short']);
+  assert.deepEqual(codes('abcdefghij'), ['too_simple']);
+});
+
+test('passwords longer than bcrypt can hash are rejected by byte length', () => {
+  assert.deepEqual(codes(`Aa1${'x'.repeat(70)}`), ['too_long']);
+  // Three ASCII bytes plus 23 three-byte characters are exactly 72 bytes: still accepted
+  assert.deepEqual(codes(`Aa1${'€'.repeat(23)}`), []);
+});
+
+test('common passwords are rejected case-insensitively', () => {
+  assert.ok(codes('PASSWORD').includes('too_common'));
+  assert.ok(codes('Qwerty').includes('too_common'));
+});
+
+test('the password must not equal the username or the local part of the email', () => {
+  assert.deepEqual(codes('JaneDoe2026', { username: 'janedoe2026' }), ['matches_username']);
+  assert.deepEqual(codes('Jane.Doe-1', { email: 'jane.doe-1@example.com' }), ['matches_username']);
+  assert.deepEqual(codes('Jane.Doe-1', { username: null, email: null }), []);
+});
+
+test('non-string input is treated as too short', () => {
+  assert.deepEqual(codes(undefined), ['too_short']);
+  assert.deepEqual(codes(12345678), ['too_short']);
+});
+
+test('passwordPolicyError leads with the first violation', () => {
+  const body = passwordPolicyError(validatePassword('abc'));
+  assert.equal(body.code, 'password_policy');
+  assert.equal(body.error, body.violations[0].message);
+});
+
+test('needsRehash flags hashes below the configured cost', () => {
+  assert.equal(needsRehash(bcrypt.hashSync('x', 4)), true);
+  assert.equal(needsRehash('not a bcrypt hash'), false);
+});
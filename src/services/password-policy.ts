@@ -0,0 +1,110 @@
+import bcrypt from 'bcryptjs';
+import { COMMON_PASSWORDS } from '../config/common-passwords.js';
+
+// Policy knobs (environment overrides keep the defaults usable in development)
+export const PASSWORD_POLICY = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '') || 8,
+  // bcrypt ignores everything past 72 bytes
+  maxLength: 72,
+  minCharacterClasses: parseInt(process.env.PASSWORD_MIN_CHARACTER_CLASSES || '') || 2,
+  rejectCommon: process.env.PASSWORD_REJECT_COMMON !== 'false',
+};
+
+// Raising the cost makes existing hashes get upgraded on their next successful login
+const BCRYPT_COST = parseInt(process.env.BCRYPT_COST || '') || 12;
+
+const commonPasswords = new Set(COMMON_PASSWORDS.map((password) => password.toLowerCase()));
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/];
+
+export type PasswordViolationCode =
+  | 'too_short'
+  | 'too_long'
+  | 'too_simple'
+  | 'too_common'
+  | 'matches_username';
+
+export interface PasswordViolation {
+  code: PasswordViolationCode;
+  message: string;
+}
+
+// Details about the account the password belongs to
+export interface PasswordContext {
+  username?: string | null;
+  email?: string | null;
+}
+
+// Check a candidate password against the policy; an empty list means it is acceptable
+export function validatePassword(password: unknown, context: PasswordContext = {}): PasswordViolation[] {
+  if (typeof password !== 'string') {
+    return [{ code: 'too_short', message: `Password must be at least ${PASSWORD_POLICY.minLength} characters long` }];
+  }
+
+  const violations: PasswordViolation[] = [];
+
+  if (password.length < PASSWORD_POLICY.minLength) {
+    violations.push({
+      code: 'too_short',
+      message: `Password must be at least ${PASSWORD_POLICY.minLength} characters long`,
+    });
+  }
+
+  if (Buffer.byteLength(password) > PASSWORD_POLICY.maxLength) {
+    violations.push({
+      code: 'too_long',
+      message: `Password must be at most ${PASSWORD_POLICY.maxLength} bytes long`,
+    });
+  }
+
+  const classCount = CHARACTER_CLASSES.filter((pattern) => pattern.test(password)).length;
+  if (classCount < PASSWORD_POLICY.minCharacterClasses) {
+    violations.push({
+      code: 'too_simple',
+      message: `Password must mix at least ${PASSWORD_POLICY.minCharacterClasses} of: lowercase letters, uppercase letters, digits, symbols`,
+    });
+  }
+
+  const normalized = password.toLowerCase();
+  if (PASSWORD_POLICY.rejectCommon && commonPasswords.has(normalized)) {
+    violations.push({
+      code: 'too_common',
+      message: 'Password is too common, please choose another one',
+    });
+  }
+
+  const emailName = context.email ? context.email.split('@')[0].toLowerCase() : null;
+  if (
+    (context.username && normalized === context.username.toLowerCase()) ||
+    (emailName && normalized === emailName)
+  ) {
+    violations.push({
+      code: 'matches_username',
+      message: 'Password must not be the same as your username or email',
+    });
+  }
+
+  return violations;
+}
+
+// Response body for a rejected password
+export function passwordPolicyError(violations: PasswordViolation[]) {
+  return {
+    error: violations[0].message,
+    code: 'password_policy',
+    violations,
+  };
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_COST);
+}
+
+// True when a stored hash was made with a lower cost than currently configured
+export function needsRehash(hash: string): boolean {
+  try {
+    return bcrypt.getRounds(hash) < BCRYPT_COST;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,72 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { roles, permissions, rolePermissions } from '../db/schema.js';
+
+// Permissions the code checks; keep in sync with the seeds in the migrate-*.sql files
+export const PERMISSIONS = [
+  'users:read',
+  'users:write',
+  'roadmaps:write',
+  'stats:read',
+  'audit:read',
+  'users:impersonate',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Admins hold every permission, including ones added after their grants were seeded
+const SUPERUSER_ROLE = 'admin';
+
+// Role grants rarely change, so they are cached briefly per process
+const CACHE_TTL_MS = 60 * 1000;
+const permissionCache = new Map<string, { permissions: Set<string>; loadedAt: number }>();
+
+async function loadRolePermissions(role: string): Promise<Set<string>> {
+  const rows = await db
+    .select({ name: permissions.name })
+    .from(rolePermissions)
+    .innerJoin(roles, eq(rolePermissions.roleId, roles.id))
+    .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id))
+    .where(eq(roles.name, role));
+
+  return new Set(rows.map((row) => row.name));
+}
+
+export async function getRolePermissions(role: string): Promise<Set<string>> {
+  if (role === SUPERUSER_ROLE) {
+    return new Set(PERMISSIONS);
+  }
+
+  const cached = permissionCache.get(role);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.permissions;
+  }
+
+  const rolePermissionSet = await loadRolePermissions(role);
+  permissionCache.set(role, { permissions: rolePermissionSet, loadedAt: Date.now() });
+  return rolePermissionSet;
+}
+
+export async function roleHasPermission(role: string | null, permission: Permission): Promise<boolean> {
+  if (!role) {
+    return false;
+  }
+  return (await getRolePermissions(role)).has(permission);
+}
+
+export async function roleExists(name: string): Promise<boolean> {
+  const role = await db.select({ id: roles.id }).from(roles).where(eq(roles.name, name)).limit(1);
+  return role.length > 0;
+}
+
+// All roles with the permissions they grant
+export async function listRoles() {
+  const allRoles = await db.select().from(roles).orderBy(asc(roles.id));
+
+  return Promise.all(
+    allRoles.map(async (role) => ({
+      ...role,
+      permissions: [...(await getRolePermissions(role.name))].sort(),
+    }))
+  );
+}
@@ -0,0 +1,212 @@
+import { and, asc, desc, eq, inArray, isNull, type SQL } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import {
+  users,
+  skills,
+  projects,
+  skillRoadmaps,
+  roadmapTasks,
+  userRoadmaps,
+  userTaskProgress,
+  taskCertificates,
+  roadmapFinalProjects,
+} from '../db/schema.js';
+import { professionalProfileColumns, listExperience, listEducation } from './professional-profile.js';
+import { getVisibleSections } from './privacy.js';
+import { parseTechnologies } from '../utils/technologies.js';
+
+async function findPortfolioUser(condition: SQL) {
+  const user = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      lastname: users.lastname,
+      username: users.username,
+      email: users.email,
+      profilePicture: users.profilePicture,
+      googleProfilePicture: users.googleProfilePicture,
+      ...professionalProfileColumns,
+      createdAt: users.createdAt,
+      isActive: users.isActive,
+    })
+    .from(users)
+    .where(and(condition, isNull(users.deletedAt)))
+    .limit(1);
+
+  return user.length > 0 && user[0].isActive !== false ? user[0] : null;
+}
+
+// Skills by category, strongest first
+async function getGroupedSkills(userId: number) {
+  const userSkills = await db
+    .select({
+      id: skills.id,
+      name: skills.name,
+      category: skills.category,
+      level: skills.level,
+      description: skills.description,
+      icon: skills.icon,
+      color: skills.color,
+    })
+    .from(skills)
+    .where(eq(skills.userId, userId))
+    .orderBy(asc(skills.category), desc(skills.level), asc(skills.name));
+
+  const grouped: { [category: string]: typeof userSkills } = {};
+  for (const skill of userSkills) {
+    (grouped[skill.category] ||= []).push(skill);
+  }
+  return grouped;
+}
+
+async function getPublishedProjects(userId: number) {
+  const published = await db
+    .select({
+      id: projects.id,
+      title: projects.title,
+      description: projects.description,
+      content: projects.content,
+      imageUrl: projects.imageUrl,
+      technologies: projects.technologies,
+      demoUrl: projects.demoUrl,
+      githubUrl: projects.githubUrl,
+      createdAt: projects.createdAt,
+      updatedAt: projects.updatedAt,
+    })
+    .from(projects)
+    .where(and(eq(projects.userId, userId), eq(projects.status, 'published')))
+    .orderBy(desc(projects.createdAt));
+
+  return published.map((project) => ({ ...project, technologies: parseTechnologies(project.technologies) }));
+}
+
+// Completed roadmaps, each with its final project when one was submitted
+async function getCompletedRoadmaps(userId: number) {
+  const completed = await db
+    .select({
+      id: userRoadmaps.id,
+      roadmapId: skillRoadmaps.id,
+      name: skillRoadmaps.name,
+      description: skillRoadmaps.description,
+      category: skillRoadmaps.category,
+      icon: skillRoadmaps.icon,
+      color: skillRoadmaps.color,
+      difficulty: skillRoadmaps.difficulty,
+      startedAt: userRoadmaps.startedAt,
+      completedAt: userRoadmaps.completedAt,
+    })
+    .from(userRoadmaps)
+    .innerJoin(skillRoadmaps, eq(userRoadmaps.roadmapId, skillRoadmaps.id))
+    .where(and(eq(userRoadmaps.userId, userId), eq(userRoadmaps.status, 'completed')))
+    .orderBy(desc(userRoadmaps.completedAt));
+
+  const finalProjects = completed.length > 0
+    ? await db
+        .select()
+        .from(roadmapFinalProjects)
+        .where(inArray(roadmapFinalProjects.userRoadmapId, completed.map((roadmap) => roadmap.id)))
+    : [];
+
+  return completed.map((roadmap) => {
+    const finalProject = finalProjects.find((project) => project.userRoadmapId === roadmap.id);
+    return {
+      ...roadmap,
+      finalProject: finalProject
+        ? {
+            id: finalProject.id,
+            title: finalProject.title,
+            description: finalProject.description,
+            githubUrl: finalProject.githubUrl,
+            demoUrl: finalProject.demoUrl,
+            imageUrl: finalProject.imageUrl,
+            technologies: parseTechnologies(finalProject.technologies),
+          }
+        : null,
+    };
+  });
+}
+
+async function getCertificates(userId: number) {
+  return db
+    .select({
+      id: taskCertificates.id,
+      name: taskCertificates.certificateName,
+      url: taskCertificates.certificateUrl,
+      source: taskCertificates.source,
+      issueDate: taskCertificates.issueDate,
+      taskTitle: roadmapTasks.title,
+      roadmapName: skillRoadmaps.name,
+    })
+    .from(taskCertificates)
+    .innerJoin(userTaskProgress, eq(taskCertificates.userTaskProgressId, userTaskProgress.id))
+    .innerJoin(roadmapTasks, eq(userTaskProgress.taskId, roadmapTasks.id))
+    .innerJoin(skillRoadmaps, eq(roadmapTasks.roadmapId, skillRoadmaps.id))
+    .where(eq(userTaskProgress.userId, userId))
+    .orderBy(desc(taskCertificates.issueDate), desc(taskCertificates.id));
+}
+
+// Everything a profile page shows, limited to what the viewer may see. Hidden sections are null
+// (as opposed to empty). Null when there is no active user with that username.
+export async function buildPortfolio(username: string, viewerId: number | null) {
+  return assemblePortfolio(await findPortfolioUser(eq(users.username, username)), viewerId);
+}
+
+// Same document looked up by user id (for users who have not picked a username)
+export async function buildPortfolioById(userId: number, viewerId: number | null) {
+  return assemblePortfolio(await findPortfolioUser(eq(users.id, userId)), viewerId);
+}
+
+async function assemblePortfolio(user: Awaited<ReturnType<typeof findPortfolioUser>>, viewerId: number | null) {
+  if (!user) {
+    return null;
+  }
+
+  const visible = await getVisibleSections(user.id, viewerId);
+  if (!visible) {
+    return null;
+  }
+
+  const { email, isActive, ...profile } = user;
+
+  // Hidden profiles only show the same card as user search results
+  if (!visible.profile) {
+    return {
+      profile: {
+        id: profile.id,
+        name: profile.name,
+        lastname: profile.lastname,
+        username: profile.username,
+        profilePicture: profile.profilePicture,
+        googleProfilePicture: profile.googleProfilePicture,
+        isRestricted: true as const,
+      },
+      skills: null,
+      projects: null,
+      roadmaps: null,
+      certificates: null,
+    };
+  }
+
+  return {
+    profile: {
+      ...profile,
+      email: visible.email ? email : null,
+      experience: await listExperience(user.id),
+      education: await listEducation(user.id),
+      isRestricted: false as const,
+    },
+    skills: visible.skills ? await getGroupedSkills(user.id) : null,
+    projects: visible.projects ? await getPublishedProjects(user.id) : null,
+    roadmaps: visible.roadmaps ? await getCompletedRoadmaps(user.id) : null,
+    certificates: visible.roadmaps ? await getCertificates(user.id) : null,
+  };
+}
+
+export type Portfolio = NonNullable<Awaited<ReturnType<typeof buildPortfolio>>>;
+
+// A portfolio whose profile the viewer is allowed to see
+export type VisiblePortfolio = Extract<Portfolio, { profile: { isRestricted: false } }>;
+
+export function isVisiblePortfolio(portfolio: Portfolio): portfolio is VisiblePortfolio {
+  return !portfolio.profile.isRestricted;
+}
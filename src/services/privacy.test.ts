@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { canView, isVisibility, resolveVisibleSections, type PrivacySettings } from './privacy.js';
+
+const settings: PrivacySettings = {
+  profile: 'public',
+  email: 'private',
+  skills: 'public',
+  projects: 'connections',
+  roadmaps: 'private',
+};
+
+test('canView follows the visibility matrix', () => {
+  const expected = {
+    public: { self: true, connection: true, other: true },
+    connections: { self: true, connection: true, other: false },
+    private: { self: true, connection: false, other: false },
+  } as const;
+
+  for (const [visibility, relationships] of Object.entries(expected)) {
+    for (const [relationship, allowed] of Object.entries(relationships)) {
+      assert.equal(
+        canView(visibility as keyof typeof expected, relationship as keyof typeof relationships),
+        allowed,
+        `${visibility} / ${relationship}`
+      );
+    }
+  }
+});
+
+test('owners see every section', () => {
+  assert.deepEqual(resolveVisibleSections({ ...settings, profile: 'private' }, 'self'), {
+    profile: true,
+    email: true,
+    skills: true,
+    projects: true,
+    roadmaps: true,
+  });
+});
+
+test('connections see public and connections-only sections', () => {
+  assert.deepEqual(resolveVisibleSections(settings, 'connection'), {
+    profile: true,
+    email: false,
+    skills: true,
+    projects: true,
+    roadmaps: false,
+  });
+});
+
+test('everyone else sees public sections only', () => {
+  assert.deepEqual(resolveVisibleSections(settings, 'other'), {
+    profile: true,
+    email: false,
+    skills: true,
+    projects: false,
+    roadmaps: false,
+  });
+});
+
+test('a hidden profile hides every section, even public ones', () => {
+  const hidden = resolveVisibleSections({ ...settings, profile: 'connections' }, 'other');
+  assert.ok(Object.values(hidden).every((visible) => !visible));
+});
+
+test('isVisibility only accepts known levels', () => {
+  assert.equal(isVisibility('connections'), true);
+  assert.equal(isVisibility('friends'), false);
+  assert.equal(isVisibility(undefined), false);
+});
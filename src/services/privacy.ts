@@ -0,0 +1,113 @@
+import { and, eq, or } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users, connections } from '../db/schema.js';
+
+export const VISIBILITY_LEVELS = ['public', 'connections', 'private'] as const;
+export type Visibility = (typeof VISIBILITY_LEVELS)[number];
+
+// Parts of a profile that can be shown or hidden independently
+export const PRIVACY_SECTIONS = ['profile', 'email', 'skills', 'projects', 'roadmaps'] as const;
+export type PrivacySection = (typeof PRIVACY_SECTIONS)[number];
+
+export type PrivacySettings = Record<PrivacySection, Visibility>;
+
+// How the viewer relates to the profile owner
+export type ViewerRelationship = 'self' | 'connection' | 'other';
+
+const privacyColumns = {
+  profile: users.profileVisibility,
+  email: users.emailVisibility,
+  skills: users.skillsVisibility,
+  projects: users.projectsVisibility,
+  roadmaps: users.roadmapsVisibility,
+};
+
+const settingColumnNames = {
+  profile: 'profileVisibility',
+  email: 'emailVisibility',
+  skills: 'skillsVisibility',
+  projects: 'projectsVisibility',
+  roadmaps: 'roadmapsVisibility',
+} as const;
+
+export function isVisibility(value: unknown): value is Visibility {
+  return typeof value === 'string' && (VISIBILITY_LEVELS as readonly string[]).includes(value);
+}
+
+// Null when the user does not exist
+export async function getPrivacySettings(userId: number): Promise<PrivacySettings | null> {
+  const settings = await db.select(privacyColumns).from(users).where(eq(users.id, userId)).limit(1);
+  return settings.length > 0 ? (settings[0] as PrivacySettings) : null;
+}
+
+export async function updatePrivacySettings(userId: number, changes: Partial<PrivacySettings>): Promise<PrivacySettings> {
+  const updateData: Partial<typeof users.$inferInsert> = { updatedAt: new Date() };
+  for (const section of PRIVACY_SECTIONS) {
+    if (changes[section]) {
+      updateData[settingColumnNames[section]] = changes[section];
+    }
+  }
+
+  const updated = await db.update(users).set(updateData).where(eq(users.id, userId)).returning(privacyColumns);
+  return updated[0] as PrivacySettings;
+}
+
+export async function getViewerRelationship(ownerId: number, viewerId: number | null): Promise<ViewerRelationship> {
+  if (viewerId === null) {
+    return 'other';
+  }
+  if (viewerId === ownerId) {
+    return 'self';
+  }
+
+  const connection = await db
+    .select({ id: connections.id })
+    .from(connections)
+    .where(
+      or(
+        and(eq(connections.user1Id, ownerId), eq(connections.user2Id, viewerId)),
+        and(eq(connections.user1Id, viewerId), eq(connections.user2Id, ownerId))
+      )
+    )
+    .limit(1);
+
+  return connection.length > 0 ? 'connection' : 'other';
+}
+
+export function canView(visibility: Visibility, relationship: ViewerRelationship): boolean {
+  if (relationship === 'self') {
+    return true;
+  }
+  if (visibility === 'connections') {
+    return relationship === 'connection';
+  }
+  return visibility === 'public';
+}
+
+// Which sections of a profile the viewer may see; a hidden profile hides every section.
+// Null when the user does not exist.
+export async function getVisibleSections(
+  ownerId: number,
+  viewerId: number | null
+): Promise<Record<PrivacySection, boolean> | null> {
+  const settings = await getPrivacySettings(ownerId);
+  if (!settings) {
+    return null;
+  }
+
+  return resolveVisibleSections(settings, await getViewerRelationship(ownerId, viewerId));
+}
+
+// Which sections a viewer with this relationship may see under the given settings
+export function resolveVisibleSections(
+  settings: PrivacySettings,
+  relationship: ViewerRelationship
+): Record<PrivacySection, boolean> {
+  const profileVisible = canView(settings.profile, relationship);
+
+  const visible = {} as Record<PrivacySection, boolean>;
+  for (const section of PRIVACY_SECTIONS) {
+    visible[section] = profileVisible && canView(settings[section], relationship);
+  }
+  return visible;
+}
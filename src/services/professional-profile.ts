@@ -0,0 +1,250 @@
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users, workExperiences, educations } from '../db/schema.js';
+
+export class ProfileValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileValidationError';
+  }
+}
+
+export const EMPLOYMENT_TYPES = ['full-time', 'part-time', 'contract', 'freelance', 'internship'] as const;
+
+const BIO_MAX_LENGTH = 10000;
+const DESCRIPTION_MAX_LENGTH = 5000;
+
+// Social links must point at the network they are labelled with
+const SOCIAL_HOSTS = {
+  githubUrl: ['github.com'],
+  linkedinUrl: ['linkedin.com'],
+  xUrl: ['x.com', 'twitter.com'],
+} as const;
+
+// Columns of the extended profile, for selects and returning clauses
+export const professionalProfileColumns = {
+  headline: users.headline,
+  bio: users.bio,
+  location: users.location,
+  timezone: users.timezone,
+  websiteUrl: users.websiteUrl,
+  githubUrl: users.githubUrl,
+  linkedinUrl: users.linkedinUrl,
+  xUrl: users.xUrl,
+  openToWork: users.openToWork,
+};
+
+// Empty values clear the field; anything else must be a string within the limit
+function optionalText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new ProfileValidationError(`${field} must be a string`);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new ProfileValidationError(`${field} must be at most ${maxLength} characters long`);
+  }
+  return trimmed || null;
+}
+
+function requiredText(value: unknown, field: string, maxLength: number): string {
+  const text = optionalText(value, field, maxLength);
+  if (!text) {
+    throw new ProfileValidationError(`${field} is required`);
+  }
+  return text;
+}
+
+// Accepts "example.com/me" as well as full http(s) URLs, optionally restricted to some hosts
+function optionalUrl(value: unknown, field: string, hosts?: readonly string[]): string | null {
+  const text = optionalText(value, field, 500);
+  if (!text) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+  } catch (error) {
+    throw new ProfileValidationError(`${field} must be a valid URL`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new ProfileValidationError(`${field} must be an http(s) URL`);
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  if (hosts && !hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`))) {
+    throw new ProfileValidationError(`${field} must link to ${hosts[0]}`);
+  }
+
+  return url.toString();
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// "2021-03" or "2021-03-15"; months without a day are stored as the first of the month
+function parseDate(value: unknown, field: string): string {
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/) : null;
+  if (!match) {
+    throw new ProfileValidationError(`${field} must be a date in YYYY-MM or YYYY-MM-DD format`);
+  }
+
+  const [, year, month, day = '01'] = match;
+  const parsed = new Date(`${year}-${month}-${day}T00:00:00Z`);
+  if (isNaN(parsed.getTime()) || parsed.getUTCMonth() + 1 !== parseInt(month) || parsed.getUTCDate() !== parseInt(day)) {
+    throw new ProfileValidationError(`${field} is not a valid date`);
+  }
+
+  return `${year}-${month}-${day}`;
+}
+
+function parseDateRange(startDate: unknown, endDate: unknown) {
+  const start = parseDate(startDate, 'startDate');
+  const end = endDate === null || endDate === undefined || endDate === '' ? null : parseDate(endDate, 'endDate');
+
+  if (end && end < start) {
+    throw new ProfileValidationError('endDate cannot be before startDate');
+  }
+  return { startDate: start, endDate: end };
+}
+
+// Validate the extended profile fields that are present in the body; absent fields are left untouched
+export function validateProfileDetails(input: Record<string, unknown>): Partial<typeof users.$inferInsert> {
+  const details: Partial<typeof users.$inferInsert> = {};
+
+  if (input.headline !== undefined) details.headline = optionalText(input.headline, 'headline', 120);
+  if (input.bio !== undefined) details.bio = optionalText(input.bio, 'bio', BIO_MAX_LENGTH);
+  if (input.location !== undefined) details.location = optionalText(input.location, 'location', 100);
+
+  if (input.timezone !== undefined) {
+    const timezone = optionalText(input.timezone, 'timezone', 64);
+    if (timezone && !isValidTimezone(timezone)) {
+      throw new ProfileValidationError('timezone must be an IANA time zone, e.g. Europe/Madrid');
+    }
+    details.timezone = timezone;
+  }
+
+  if (input.websiteUrl !== undefined) details.websiteUrl = optionalUrl(input.websiteUrl, 'websiteUrl');
+  for (const field of Object.keys(SOCIAL_HOSTS) as (keyof typeof SOCIAL_HOSTS)[]) {
+    if (input[field] !== undefined) {
+      details[field] = optionalUrl(input[field], field, SOCIAL_HOSTS[field]);
+    }
+  }
+
+  if (input.openToWork !== undefined) {
+    if (typeof input.openToWork !== 'boolean') {
+      throw new ProfileValidationError('openToWork must be a boolean');
+    }
+    details.openToWork = input.openToWork;
+  }
+
+  return details;
+}
+
+// Work experience entries are replaced as a whole, so every required field must be present
+export function validateExperience(input: Record<string, unknown>) {
+  if (!input || typeof input !== 'object') {
+    throw new ProfileValidationError('Invalid request body');
+  }
+
+  const employmentType = optionalText(input.employmentType, 'employmentType', 20);
+  if (employmentType && !(EMPLOYMENT_TYPES as readonly string[]).includes(employmentType)) {
+    throw new ProfileValidationError(`employmentType must be one of: ${EMPLOYMENT_TYPES.join(', ')}`);
+  }
+
+  return {
+    title: requiredText(input.title, 'title', 120),
+    company: requiredText(input.company, 'company', 120),
+    location: optionalText(input.location, 'location', 100),
+    employmentType,
+    ...parseDateRange(input.startDate, input.endDate),
+    description: optionalText(input.description, 'description', DESCRIPTION_MAX_LENGTH),
+  };
+}
+
+export function validateEducation(input: Record<string, unknown>) {
+  if (!input || typeof input !== 'object') {
+    throw new ProfileValidationError('Invalid request body');
+  }
+
+  return {
+    school: requiredText(input.school, 'school', 120),
+    degree: optionalText(input.degree, 'degree', 120),
+    fieldOfStudy: optionalText(input.fieldOfStudy, 'fieldOfStudy', 120),
+    ...parseDateRange(input.startDate, input.endDate),
+    description: optionalText(input.description, 'description', DESCRIPTION_MAX_LENGTH),
+  };
+}
+
+// Current entries first, then most recent
+export async function listExperience(userId: number) {
+  return db
+    .select()
+    .from(workExperiences)
+    .where(eq(workExperiences.userId, userId))
+    .orderBy(sql`${workExperiences.endDate} desc nulls first`, desc(workExperiences.startDate), desc(workExperiences.id));
+}
+
+export async function listEducation(userId: number) {
+  return db
+    .select()
+    .from(educations)
+    .where(eq(educations.userId, userId))
+    .orderBy(sql`${educations.endDate} desc nulls first`, desc(educations.startDate), desc(educations.id));
+}
+
+export async function addExperience(userId: number, entry: ReturnType<typeof validateExperience>) {
+  const created = await db.insert(workExperiences).values({ ...entry, userId }).returning();
+  return created[0];
+}
+
+// Null when the entry does not exist or belongs to someone else
+export async function updateExperience(userId: number, entryId: number, entry: ReturnType<typeof validateExperience>) {
+  const updated = await db
+    .update(workExperiences)
+    .set({ ...entry, updatedAt: new Date() })
+    .where(and(eq(workExperiences.id, entryId), eq(workExperiences.userId, userId)))
+    .returning();
+  return updated[0] || null;
+}
+
+export async function deleteExperience(userId: number, entryId: number): Promise<boolean> {
+  const deleted = await db
+    .delete(workExperiences)
+    .where(and(eq(workExperiences.id, entryId), eq(workExperiences.userId, userId)))
+    .returning({ id: workExperiences.id });
+  return deleted.length > 0;
+}
+
+export async function addEducation(userId: number, entry: ReturnType<typeof validateEducation>) {
+  const created = await db.insert(educations).values({ ...entry, userId }).returning();
+  return created[0];
+}
+
+export async function updateEducation(userId: number, entryId: number, entry: ReturnType<typeof validateEducation>) {
+  const updated = await db
+    .update(educations)
+    .set({ ...entry, updatedAt: new Date() })
+    .where(and(eq(educations.id, entryId), eq(educations.userId, userId)))
+    .returning();
+  return updated[0] || null;
+}
+
+export async function deleteEducation(userId: number, entryId: number): Promise<boolean> {
+  const deleted = await db
+    .delete(educations)
+    .where(and(eq(educations.id, entryId), eq(educations.userId, userId)))
+    .returning({ id: educations.id });
+  return deleted.length > 0;
+}
@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+import { redis } from '../utils/redis.js';
+import { renderResumePdf, RESUME_TEMPLATES, RESUME_RENDERER_VERSION, type ResumeTemplate } from '../utils/resume-pdf.js';
+import { uploadFile, deleteFile, fileExists, getFileBuffer, privateFileKey } from './s3.js';
+import type { VisiblePortfolio } from './portfolio.js';
+
+export { RESUME_TEMPLATES, type ResumeTemplate };
+
+// The owner's own resume may include details the public version leaves out
+export type ResumeAudience = 'owner' | 'public';
+
+const RESUME_AUDIENCES: ResumeAudience[] = ['owner', 'public'];
+
+// Points at the newest cached PDF so the previous one can be removed when the data changes
+const latestResumeKey = (userId: number, audience: ResumeAudience, template: ResumeTemplate) =>
+  `resume:${userId}:${audience}:${template}`;
+
+export function isResumeTemplate(value: unknown): value is ResumeTemplate {
+  return typeof value === 'string' && (RESUME_TEMPLATES as readonly string[]).includes(value);
+}
+
+// Resume PDF for a portfolio, rendered only when the underlying data (or layout) has changed
+export async function getResumePdf(
+  portfolio: VisiblePortfolio,
+  audience: ResumeAudience,
+  template: ResumeTemplate
+): Promise<Buffer> {
+  const userId = portfolio.profile.id;
+  const hash = createHash('sha256')
+    .update(JSON.stringify({ version: RESUME_RENDERER_VERSION, template, portfolio }))
+    .digest('hex');
+  // Owner copies can hold the private email and hidden sections, so no cached PDF is publicly readable
+  const fileKey = privateFileKey(`resumes/${userId}/${audience}-${template}-${hash}.pdf`);
+
+  try {
+    if (await fileExists(fileKey)) {
+      return await getFileBuffer(fileKey);
+    }
+  } catch (error) {
+    console.warn(`Failed to read cached resume '${fileKey}', rendering it again:`, error);
+  }
+
+  const pdf = await renderResumePdf(portfolio, template);
+  await uploadFile(fileKey, pdf, 'application/pdf');
+
+  const pointerKey = latestResumeKey(userId, audience, template);
+  const previousKey = await redis.get(pointerKey);
+  await redis.set(pointerKey, fileKey);
+  if (previousKey && previousKey !== fileKey) {
+    deleteFile(previousKey).catch(() => {});
+  }
+
+  return pdf;
+}
+
+// ASCII file name for the Content-Disposition header, e.g. "jane-doe-resume.pdf"
+export function resumeFilename(profile: { name: string; lastname: string }): string {
+  const slug = `${profile.name} ${profile.lastname}`
+    .normalize('NFKD')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return `${slug || 'resume'}${slug ? '-resume' : ''}.pdf`;
+}
+
+// Remove every cached resume of a user
+export async function deleteCachedResumes(userId: number): Promise<void> {
+  for (const audience of RESUME_AUDIENCES) {
+    for (const template of RESUME_TEMPLATES) {
+      const fileKey = await redis.getDel(latestResumeKey(userId, audience, template));
+      if (fileKey) {
+        await deleteFile(fileKey).catch(() => {});
+      }
+    }
+  }
+}
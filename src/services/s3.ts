@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, CreateBucketCommand, HeadBucketCommand, PutBucketPolicyCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand, DeleteObjectCommand, CreateBucketCommand, HeadBucketCommand, PutBucketPolicyCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import 'dotenv/config';
 
@@ -15,6 +15,9 @@ const s3Client = new S3Client({
 
 const BUCKET_NAME = process.env.S3_BUCKET_NAME || 'uploads';
 
+// Prefixes of user uploads that are served straight from the bucket (see generateFileKey)
+const PUBLIC_PREFIXES = ['users/', 'uploads/'];
+
 // Initialize bucket if it doesn't exist and set public read policy
 export async function initializeBucket(): Promise<void> {
   try {
@@ -35,7 +38,7 @@ export async function initializeBucket(): Promise<void> {
     }
   }
 
-  // Set bucket policy for public read access
+  // Set bucket policy for public read access to uploads; anything under private/ is only reachable with credentials
   try {
     const bucketPolicy = {
       Version: '2012-10-17',
@@ -45,7 +48,7 @@ export async function initializeBucket(): Promise<void> {
           Effect: 'Allow',
           Principal: '*',
           Action: 's3:GetObject',
-          Resource: `arn:aws:s3:::${BUCKET_NAME}/*`,
+          Resource: PUBLIC_PREFIXES.map((prefix) => `arn:aws:s3:::${BUCKET_NAME}/${prefix}*`),
         },
       ],
     };
@@ -126,6 +129,38 @@ export async function generatePresignedDownloadUrl(
   }
 }
 
+// Download a file's contents from S3
+export async function getFileBuffer(key: string): Promise<Buffer> {
+  try {
+    const command = new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+    });
+
+    const response = await s3Client.send(command);
+    if (!response.Body) {
+      throw new Error(`Empty body for '${key}'`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  } catch (error) {
+    console.error('Error downloading file from S3:', error);
+    throw error;
+  }
+}
+
+// Check whether an object exists without downloading it
+export async function fileExists(key: string): Promise<boolean> {
+  try {
+    await s3Client.send(new HeadObjectCommand({ Bucket: BUCKET_NAME, Key: key }));
+    return true;
+  } catch (error: any) {
+    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
 // Delete file from S3
 export async function deleteFile(key: string): Promise<void> {
   try {
@@ -147,6 +182,11 @@ export function getFileUrl(key: string): string {
   return `${process.env.S3_ENDPOINT}/${BUCKET_NAME}/${key}`;
 }
 
+// Key for an object that must never be publicly readable (exports, cached resumes)
+export function privateFileKey(path: string): string {
+  return `private/${path}`;
+}
+
 // Generate unique file key
 export function generateFileKey(originalName: string, userId?: number): string {
   const timestamp = Date.now();
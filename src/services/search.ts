@@ -0,0 +1,378 @@
+import { and, desc, eq, exists, gte, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users, projects, skills, skillRoadmaps, userRoadmaps } from '../db/schema.js';
+import { parseTechnologies } from '../utils/technologies.js';
+
+export const SEARCH_TYPES = ['all', 'users', 'projects', 'skills'] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+const MAX_QUERY_TERMS = 8;
+
+// Matches are wrapped in <mark>; the source text is HTML-escaped first so snippets are safe to render
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "';
+
+// Generated columns from migrate-search.sql (not mapped in the schema)
+const userVector = sql.raw('"users"."search_vector"');
+const projectVector = sql.raw('"projects"."search_vector"');
+const skillVector = sql.raw('"skills"."search_vector"');
+
+export function isSearchType(value: unknown): value is SearchType {
+  return typeof value === 'string' && (SEARCH_TYPES as readonly string[]).includes(value);
+}
+
+// Turn free text into a prefix query: "type scr" -> 'type':* & 'scr':*. Null when nothing searchable is left.
+export function buildPrefixQuery(input: string): string | null {
+  const terms = (input.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}._#+-]*/gu) || []).slice(0, MAX_QUERY_TERMS);
+  if (terms.length === 0) {
+    return null;
+  }
+  return terms.map((term) => `'${term}':*`).join(' & ');
+}
+
+function snippet(text: SQL, query: SQL) {
+  const escaped = sql`replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+  return sql<string | null>`nullif(ts_headline('simple', ${escaped}, ${query}, ${HEADLINE_OPTIONS}), '')`;
+}
+
+// Accounts that can show up in search results
+const activeUser = and(sql`${users.isActive} IS NOT FALSE`, isNull(users.deletedAt));
+
+export interface SearchPage {
+  limit: number;
+  offset: number;
+}
+
+// People by name and username; headline and bio are only indexed for public profiles
+export async function searchUsers(queryText: string, { limit, offset }: SearchPage) {
+  const query = sql`to_tsquery('simple', ${queryText})`;
+  const publicProfile = eq(users.profileVisibility, 'public');
+
+  const rows = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      lastname: users.lastname,
+      username: users.username,
+      profilePicture: users.profilePicture,
+      googleProfilePicture: users.googleProfilePicture,
+      headline: sql<string | null>`CASE WHEN ${publicProfile} THEN ${users.headline} END`,
+      createdAt: users.createdAt,
+      snippet: snippet(
+        sql`CASE WHEN ${publicProfile} THEN concat_ws(' — ', ${users.headline}, ${users.bio}) ELSE '' END`,
+        query
+      ),
+      rank: sql<number>`ts_rank_cd(${userVector}, ${query})`,
+      total: sql<number>`(count(*) over ())::int`,
+    })
+    .from(users)
+    .where(and(sql`${userVector} @@ ${query}`, activeUser))
+    .orderBy(sql`ts_rank_cd(${userVector}, ${query}) desc`, users.id)
+    .limit(limit)
+    .offset(offset);
+
+  return {
+    results: rows.map(({ total, ...row }) => row),
+    total: rows.length > 0 ? rows[0].total : 0,
+  };
+}
+
+// Published projects of people who share their projects publicly
+export async function searchProjects(queryText: string, { limit, offset }: SearchPage) {
+  const query = sql`to_tsquery('simple', ${queryText})`;
+
+  const rows = await db
+    .select({
+      id: projects.id,
+      title: projects.title,
+      description: projects.description,
+      imageUrl: projects.imageUrl,
+      technologies: projects.technologies,
+      demoUrl: projects.demoUrl,
+      githubUrl: projects.githubUrl,
+      createdAt: projects.createdAt,
+      ownerId: users.id,
+      ownerName: users.name,
+      ownerLastname: users.lastname,
+      ownerUsername: users.username,
+      snippet: snippet(sql`concat_ws(' ', ${projects.description}, ${projects.content})`, query),
+      rank: sql<number>`ts_rank_cd(${projectVector}, ${query})`,
+      total: sql<number>`(count(*) over ())::int`,
+    })
+    .from(projects)
+    .innerJoin(users, eq(projects.userId, users.id))
+    .where(
+      and(
+        sql`${projectVector} @@ ${query}`,
+        eq(projects.status, 'published'),
+        eq(users.profileVisibility, 'public'),
+        eq(users.projectsVisibility, 'public'),
+        activeUser
+      )
+    )
+    .orderBy(sql`ts_rank_cd(${projectVector}, ${query}) desc`, projects.id)
+    .limit(limit)
+    .offset(offset);
+
+  return {
+    results: rows.map(({ total, ...row }) => ({ ...row, technologies: parseTechnologies(row.technologies) })),
+    total: rows.length > 0 ? rows[0].total : 0,
+  };
+}
+
+// Skills of people who share their skills publicly
+export async function searchSkills(queryText: string, { limit, offset }: SearchPage) {
+  const query = sql`to_tsquery('simple', ${queryText})`;
+
+  const rows = await db
+    .select({
+      id: skills.id,
+      name: skills.name,
+      category: skills.category,
+      level: skills.level,
+      icon: skills.icon,
+      color: skills.color,
+      ownerId: users.id,
+      ownerName: users.name,
+      ownerLastname: users.lastname,
+      ownerUsername: users.username,
+      snippet: snippet(sql`coalesce(${skills.description}, '')`, query),
+      rank: sql<number>`ts_rank_cd(${skillVector}, ${query})`,
+      total: sql<number>`(count(*) over ())::int`,
+    })
+    .from(skills)
+    .innerJoin(users, eq(skills.userId, users.id))
+    .where(
+      and(
+        sql`${skillVector} @@ ${query}`,
+        eq(users.profileVisibility, 'public'),
+        eq(users.skillsVisibility, 'public'),
+        activeUser
+      )
+    )
+    .orderBy(sql`ts_rank_cd(${skillVector}, ${query}) desc`, skills.id)
+    .limit(limit)
+    .offset(offset);
+
+  return {
+    results: rows.map(({ total, ...row }) => row),
+    total: rows.length > 0 ? rows[0].total : 0,
+  };
+}
+
+export interface PeopleFilters {
+  skills: { name: string; minLevel: number }[];
+  categories: string[];
+  minLevel: number; // For category filters
+  roadmaps: (number | string)[]; // Completed roadmap ids or names
+  technologies: string[]; // Used in at least one published project
+  openToWork: boolean;
+}
+
+const FACET_SIZE = 20;
+
+// projects.technologies is JSON text that is not guaranteed to be valid or an array; technologies_array
+// (migrate-people-search.sql) treats anything else as no technologies instead of failing the query
+const technologyArray = sql`technologies_array(${projects.technologies})`;
+
+// Only sections people share publicly can be filtered on or counted
+function peopleConditions(filters: PeopleFilters): SQL {
+  const conditions: SQL[] = [eq(users.profileVisibility, 'public'), activeUser!];
+
+  if (filters.openToWork) {
+    conditions.push(eq(users.openToWork, true));
+  }
+
+  if (filters.skills.length > 0 || filters.categories.length > 0) {
+    conditions.push(eq(users.skillsVisibility, 'public'));
+  }
+  for (const skill of filters.skills) {
+    conditions.push(
+      exists(
+        db
+          .select({ one: sql`1` })
+          .from(skills)
+          .where(and(eq(skills.userId, users.id), sql`lower(${skills.name}) = ${skill.name.toLowerCase()}`, gte(skills.level, skill.minLevel)))
+      )
+    );
+  }
+  for (const category of filters.categories) {
+    conditions.push(
+      exists(
+        db
+          .select({ one: sql`1` })
+          .from(skills)
+          .where(and(eq(skills.userId, users.id), sql`lower(${skills.category}) = ${category.toLowerCase()}`, gte(skills.level, filters.minLevel)))
+      )
+    );
+  }
+
+  if (filters.roadmaps.length > 0) {
+    conditions.push(eq(users.roadmapsVisibility, 'public'));
+  }
+  for (const roadmap of filters.roadmaps) {
+    conditions.push(
+      exists(
+        db
+          .select({ one: sql`1` })
+          .from(userRoadmaps)
+          .innerJoin(skillRoadmaps, eq(userRoadmaps.roadmapId, skillRoadmaps.id))
+          .where(
+            and(
+              eq(userRoadmaps.userId, users.id),
+              eq(userRoadmaps.status, 'completed'),
+              typeof roadmap === 'number'
+                ? eq(skillRoadmaps.id, roadmap)
+                : sql`lower(${skillRoadmaps.name}) = ${roadmap.toLowerCase()}`
+            )
+          )
+      )
+    );
+  }
+
+  if (filters.technologies.length > 0) {
+    conditions.push(eq(users.projectsVisibility, 'public'));
+  }
+  for (const technology of filters.technologies) {
+    conditions.push(
+      exists(
+        db
+          .select({ one: sql`1` })
+          .from(projects)
+          .where(
+            and(
+              eq(projects.userId, users.id),
+              eq(projects.status, 'published'),
+              sql`exists (select 1 from jsonb_array_elements_text(${technologyArray}) as technology where lower(technology) = ${technology.toLowerCase()})`
+            )
+          )
+      )
+    );
+  }
+
+  return and(...conditions)!;
+}
+
+// Counts of matching people per skill, category, completed roadmap and technology
+async function getPeopleFacets(where: SQL) {
+  const skillFacets = await db
+    .select({ name: sql<string>`min(${skills.name})`, count: sql<number>`count(distinct ${skills.userId})::int` })
+    .from(skills)
+    .innerJoin(users, eq(skills.userId, users.id))
+    .where(and(where, eq(users.skillsVisibility, 'public')))
+    .groupBy(sql`lower(${skills.name})`)
+    .orderBy(sql`count(distinct ${skills.userId}) desc`, sql`lower(${skills.name})`)
+    .limit(FACET_SIZE);
+
+  const categoryFacets = await db
+    .select({ name: sql<string>`lower(${skills.category})`, count: sql<number>`count(distinct ${skills.userId})::int` })
+    .from(skills)
+    .innerJoin(users, eq(skills.userId, users.id))
+    .where(and(where, eq(users.skillsVisibility, 'public')))
+    .groupBy(sql`lower(${skills.category})`)
+    .orderBy(sql`count(distinct ${skills.userId}) desc`, sql`lower(${skills.category})`)
+    .limit(FACET_SIZE);
+
+  const roadmapFacets = await db
+    .select({ id: skillRoadmaps.id, name: skillRoadmaps.name, count: sql<number>`count(distinct ${userRoadmaps.userId})::int` })
+    .from(userRoadmaps)
+    .innerJoin(skillRoadmaps, eq(userRoadmaps.roadmapId, skillRoadmaps.id))
+    .innerJoin(users, eq(userRoadmaps.userId, users.id))
+    .where(and(where, eq(userRoadmaps.status, 'completed'), eq(users.roadmapsVisibility, 'public')))
+    .groupBy(skillRoadmaps.id, skillRoadmaps.name)
+    .orderBy(sql`count(distinct ${userRoadmaps.userId}) desc`, skillRoadmaps.name)
+    .limit(FACET_SIZE);
+
+  const technology = sql.raw('technology');
+  const technologyFacets = await db
+    .select({ name: sql<string>`min(${technology})`, count: sql<number>`count(distinct ${projects.userId})::int` })
+    .from(projects)
+    .innerJoin(users, eq(projects.userId, users.id))
+    .innerJoin(
+      sql`jsonb_array_elements_text(${technologyArray}) as ${technology}`,
+      sql`true`
+    )
+    .where(and(where, eq(projects.status, 'published'), eq(users.projectsVisibility, 'public')))
+    .groupBy(sql`lower(${technology})`)
+    .orderBy(sql`count(distinct ${projects.userId}) desc`, sql`lower(${technology})`)
+    .limit(FACET_SIZE);
+
+  const openToWork = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(users)
+    .where(and(where, eq(users.openToWork, true)));
+
+  return {
+    skills: skillFacets,
+    categories: categoryFacets,
+    roadmaps: roadmapFacets,
+    technologies: technologyFacets,
+    openToWork: openToWork[0].count,
+  };
+}
+
+// Talent search: people matching every filter, with facet counts over the whole match
+export async function searchPeople(filters: PeopleFilters, { limit, offset }: SearchPage) {
+  const where = peopleConditions(filters);
+
+  // People strongest in the requested skills come first
+  const skillNames = filters.skills.map((skill) => skill.name.toLowerCase());
+  const relevance = skillNames.length > 0
+    ? sql`(select coalesce(sum(${skills.level}), 0) from ${skills} where ${skills.userId} = ${users.id} and lower(${skills.name}) in ${skillNames})`
+    : sql`0`;
+
+  const people = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      lastname: users.lastname,
+      username: users.username,
+      profilePicture: users.profilePicture,
+      googleProfilePicture: users.googleProfilePicture,
+      headline: users.headline,
+      location: users.location,
+      openToWork: users.openToWork,
+      skillsVisibility: users.skillsVisibility,
+      roadmapsVisibility: users.roadmapsVisibility,
+    })
+    .from(users)
+    .where(where)
+    .orderBy(sql`${relevance} desc`, desc(users.openToWork), desc(users.createdAt), users.id)
+    .limit(limit)
+    .offset(offset);
+
+  const total = await db.select({ count: sql<number>`count(*)::int` }).from(users).where(where);
+
+  // Attach the public skills and completed roadmaps of the people on this page
+  const ids = people.map((person) => person.id);
+  const pageSkills = ids.length > 0
+    ? await db
+        .select({ userId: skills.userId, name: skills.name, category: skills.category, level: skills.level })
+        .from(skills)
+        .where(inArray(skills.userId, ids))
+        .orderBy(desc(skills.level), skills.name)
+    : [];
+  const pageRoadmaps = ids.length > 0
+    ? await db
+        .select({ userId: userRoadmaps.userId, id: skillRoadmaps.id, name: skillRoadmaps.name, completedAt: userRoadmaps.completedAt })
+        .from(userRoadmaps)
+        .innerJoin(skillRoadmaps, eq(userRoadmaps.roadmapId, skillRoadmaps.id))
+        .where(and(inArray(userRoadmaps.userId, ids), eq(userRoadmaps.status, 'completed')))
+        .orderBy(desc(userRoadmaps.completedAt))
+    : [];
+
+  const results = people.map(({ skillsVisibility, roadmapsVisibility, ...person }) => ({
+    ...person,
+    skills: skillsVisibility === 'public'
+      ? pageSkills.filter((skill) => skill.userId === person.id).map(({ userId, ...skill }) => skill)
+      : [],
+    completedRoadmaps: roadmapsVisibility === 'public'
+      ? pageRoadmaps.filter((roadmap) => roadmap.userId === person.id).map(({ userId, ...roadmap }) => roadmap)
+      : [],
+  }));
+
+  return {
+    results,
+    total: total[0].count,
+    facets: await getPeopleFacets(where),
+  };
+}
@@ -0,0 +1,261 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { redis } from '../utils/redis.js';
+import { generateJWT } from '../config/jwt.js';
+import { describeUserAgent } from '../utils/user-agent.js';
+
+// Refresh tokens live for 30 days unless rotated or revoked
+const REFRESH_TOKEN_TTL = parseInt(process.env.REFRESH_TOKEN_TTL_SECONDS || '') || 60 * 60 * 24 * 30;
+
+// Access tokens only bump last-seen this often, to keep a write off most requests
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+interface SessionFamily {
+  userId: number;
+  tokenHash: string;
+  createdAt: number;
+  lastUsedAt: number;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+// Where a session was started from
+export interface SessionMeta {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionInfo {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export class RefreshTokenError extends Error {
+  constructor(message: string, public reused = false) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+const familyKey = (familyId: string) => `auth:family:${familyId}`;
+const usedTokensKey = (familyId: string) => `auth:family:${familyId}:used`;
+const userFamiliesKey = (userId: number) => `auth:user:${userId}:families`;
+const lastSeenKey = (familyId: string) => `auth:family:${familyId}:seen`;
+
+// Swap in the next token hash only if the presented one is still current, and remember the presented one
+// as used, in one step so two refreshes racing with the same token cannot both succeed
+const ROTATE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw or cjson.decode(raw).tokenHash ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+redis.call('SADD', KEYS[2], ARGV[1])
+redis.call('EXPIRE', KEYS[2], ARGV[3])
+return 1
+`;
+
+// Emits 'revoked' with (sessionId, userId) so live connections can be closed (see utils/socket.ts)
+export const sessionEvents = new EventEmitter();
+
+function hashToken(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+// Refresh tokens carry their family id so a presented token can be looked up directly
+function splitRefreshToken(refreshToken: string): { familyId: string; secret: string } | null {
+  const [familyId, secret] = refreshToken.split('.');
+  if (!familyId || !secret) {
+    return null;
+  }
+  return { familyId, secret };
+}
+
+async function saveFamily(familyId: string, family: SessionFamily): Promise<void> {
+  await redis.setEx(familyKey(familyId), REFRESH_TOKEN_TTL, JSON.stringify(family));
+}
+
+// Start a new session (token family) for a user and issue its first token pair
+export async function createSession(user: any, meta: SessionMeta = {}): Promise<IssuedTokens> {
+  const familyId = randomUUID();
+  const secret = randomBytes(32).toString('base64url');
+  const now = Date.now();
+
+  await saveFamily(familyId, {
+    userId: user.id,
+    tokenHash: hashToken(secret),
+    createdAt: now,
+    lastUsedAt: now,
+    userAgent: meta.userAgent || null,
+    ipAddress: meta.ipAddress || null,
+  });
+  await redis.sAdd(userFamiliesKey(user.id), familyId);
+  await redis.expire(userFamiliesKey(user.id), REFRESH_TOKEN_TTL);
+
+  return {
+    token: generateJWT(user, familyId),
+    refreshToken: `${familyId}.${secret}`,
+    sessionId: familyId,
+  };
+}
+
+// A token that is not the current one: replaying a used token kills the family
+async function rejectStaleToken(familyId: string, userId: number, presentedHash: string): Promise<never> {
+  const reused = await redis.sIsMember(usedTokensKey(familyId), presentedHash);
+  if (reused) {
+    console.warn(`Refresh token reuse detected for user ${userId}, revoking session ${familyId}`);
+    await revokeSession(familyId);
+    throw new RefreshTokenError('Refresh token reuse detected', true);
+  }
+  throw new RefreshTokenError('Invalid refresh token');
+}
+
+// Exchange a refresh token for a new pair; a replayed token kills its whole family
+export async function rotateRefreshToken(
+  refreshToken: string,
+  loadUser: (userId: number) => Promise<any | null>,
+  meta: SessionMeta = {}
+): Promise<IssuedTokens> {
+  const parts = splitRefreshToken(refreshToken);
+  if (!parts) {
+    throw new RefreshTokenError('Invalid refresh token');
+  }
+
+  const raw = await redis.get(familyKey(parts.familyId));
+  if (!raw) {
+    throw new RefreshTokenError('Session expired or revoked');
+  }
+
+  const family: SessionFamily = JSON.parse(raw);
+  const presentedHash = hashToken(parts.secret);
+
+  if (presentedHash !== family.tokenHash) {
+    await rejectStaleToken(parts.familyId, family.userId, presentedHash);
+  }
+
+  const user = await loadUser(family.userId);
+  if (!user || user.isActive === false) {
+    await revokeSession(parts.familyId);
+    throw new RefreshTokenError('Account is inactive');
+  }
+
+  const secret = randomBytes(32).toString('base64url');
+  const rotated: SessionFamily = {
+    ...family,
+    tokenHash: hashToken(secret),
+    lastUsedAt: Date.now(),
+    userAgent: meta.userAgent || family.userAgent || null,
+    ipAddress: meta.ipAddress || family.ipAddress || null,
+  };
+
+  const swapped = await redis.eval(ROTATE_SCRIPT, {
+    keys: [familyKey(parts.familyId), usedTokensKey(parts.familyId)],
+    arguments: [presentedHash, JSON.stringify(rotated), String(REFRESH_TOKEN_TTL)],
+  });
+  if (swapped !== 1) {
+    // Another refresh used this token first (or the session was revoked meanwhile)
+    await rejectStaleToken(parts.familyId, family.userId, presentedHash);
+  }
+  await redis.expire(userFamiliesKey(family.userId), REFRESH_TOKEN_TTL);
+
+  return {
+    token: generateJWT(user, parts.familyId),
+    refreshToken: `${parts.familyId}.${secret}`,
+    sessionId: parts.familyId,
+  };
+}
+
+// Check that the session an access token was issued for is still alive
+export async function isSessionActive(sessionId: string, userId: number): Promise<boolean> {
+  const raw = await redis.get(familyKey(sessionId));
+  if (!raw) {
+    return false;
+  }
+  const family: SessionFamily = JSON.parse(raw);
+  return family.userId === userId;
+}
+
+// Record that a session was just used with an access token
+export async function touchSession(sessionId: string): Promise<void> {
+  const now = Date.now();
+  const previous = parseInt((await redis.get(lastSeenKey(sessionId))) || '0');
+
+  if (now - previous > LAST_SEEN_RESOLUTION_MS) {
+    await redis.setEx(lastSeenKey(sessionId), REFRESH_TOKEN_TTL, String(now));
+  }
+}
+
+// A user's live sessions, most recently seen first
+export async function listSessions(userId: number, currentSessionId?: string | null): Promise<SessionInfo[]> {
+  const familyIds = await redis.sMembers(userFamiliesKey(userId));
+  const sessions: SessionInfo[] = [];
+
+  for (const familyId of familyIds) {
+    const raw = await redis.get(familyKey(familyId));
+    if (!raw) {
+      // Expired on its own; drop the dangling reference
+      await redis.sRem(userFamiliesKey(userId), familyId);
+      continue;
+    }
+
+    const family: SessionFamily = JSON.parse(raw);
+    const seenAt = parseInt((await redis.get(lastSeenKey(familyId))) || '0');
+
+    sessions.push({
+      id: familyId,
+      device: describeUserAgent(family.userAgent),
+      userAgent: family.userAgent || null,
+      ipAddress: family.ipAddress || null,
+      createdAt: new Date(family.createdAt),
+      lastSeenAt: new Date(Math.max(family.lastUsedAt, seenAt)),
+      current: familyId === currentSessionId,
+    });
+  }
+
+  return sessions.sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+}
+
+// Look up which user a session belongs to (null when it no longer exists)
+export async function getSessionOwner(sessionId: string): Promise<number | null> {
+  const raw = await redis.get(familyKey(sessionId));
+  return raw ? (JSON.parse(raw) as SessionFamily).userId : null;
+}
+
+// Revoke a single session
+export async function revokeSession(sessionId: string): Promise<void> {
+  const raw = await redis.get(familyKey(sessionId));
+  await redis.del([familyKey(sessionId), usedTokensKey(sessionId), lastSeenKey(sessionId)]);
+
+  if (raw) {
+    const family: SessionFamily = JSON.parse(raw);
+    await redis.sRem(userFamiliesKey(family.userId), sessionId);
+    sessionEvents.emit('revoked', sessionId, family.userId);
+  }
+}
+
+// Revoke every session belonging to a user (logout everywhere)
+export async function revokeAllSessions(userId: number): Promise<number> {
+  const familyIds = await redis.sMembers(userFamiliesKey(userId));
+
+  if (familyIds.length > 0) {
+    await redis.del(familyIds.flatMap((id) => [familyKey(id), usedTokensKey(id), lastSeenKey(id)]));
+  }
+  await redis.del(userFamiliesKey(userId));
+
+  for (const familyId of familyIds) {
+    sessionEvents.emit('revoked', familyId, userId);
+  }
+
+  return familyIds.length;
+}
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// The trusted proxy list is read when the module loads
+process.env.TRUSTED_PROXIES = '10.0.0.2, 127.0.0.1';
+const { resolveClientIp } = await import('./client-ip.js');
+
+test('direct connections use the socket address and ignore X-Forwarded-For', () => {
+  assert.equal(resolveClientIp('203.0.113.7', undefined), '203.0.113.7');
+  assert.equal(resolveClientIp('203.0.113.7', '198.51.100.1'), '203.0.113.7');
+});
+
+test('a trusted proxy forwards the address it saw', () => {
+  assert.equal(resolveClientIp('10.0.0.2', '198.51.100.1'), '198.51.100.1');
+});
+
+test('hops added by the client are not trusted', () => {
+  assert.equal(resolveClientIp('10.0.0.2', '1.1.1.1, 198.51.100.1'), '198.51.100.1');
+});
+
+test('chains of trusted proxies are walked from the right', () => {
+  assert.equal(resolveClientIp('127.0.0.1', '1.1.1.1, 198.51.100.1, 10.0.0.2'), '198.51.100.1');
+  assert.equal(resolveClientIp('127.0.0.1', ['1.1.1.1, 198.51.100.1', '10.0.0.2']), '198.51.100.1');
+});
+
+test('IPv4-mapped IPv6 addresses are normalized', () => {
+  assert.equal(resolveClientIp('::ffff:127.0.0.1', '198.51.100.1'), '198.51.100.1');
+  assert.equal(resolveClientIp('::ffff:203.0.113.7', undefined), '203.0.113.7');
+});
+
+test('a trusted proxy without forwarding info is the client', () => {
+  assert.equal(resolveClientIp('10.0.0.2', undefined), '10.0.0.2');
+  assert.equal(resolveClientIp(undefined, undefined), 'unknown');
+});
@@ -0,0 +1,37 @@
+import type { Context } from 'hono';
+
+// Set by our HTTP server for every request, replacing anything the client sent
+export const CLIENT_IP_HEADER = 'x-client-ip';
+
+// Proxies allowed to tell us the client address through X-Forwarded-For (comma-separated IPs)
+const TRUSTED_PROXIES = new Set(
+  (process.env.TRUSTED_PROXIES || '')
+    .split(',')
+    .map((address) => normalizeAddress(address.trim()))
+    .filter(Boolean)
+);
+
+// "::ffff:10.0.0.1" is how Node reports IPv4 peers on a dual-stack socket
+function normalizeAddress(address: string): string {
+  return address.startsWith('::ffff:') && address.includes('.') ? address.slice(7) : address;
+}
+
+// The connecting address, unless it is a trusted proxy: then walk X-Forwarded-For from the right,
+// skipping further trusted proxies. Hops added by the client itself are never reached.
+export function resolveClientIp(remoteAddress: string | undefined, forwardedFor: string | string[] | undefined): string {
+  let address = remoteAddress ? normalizeAddress(remoteAddress) : '';
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor || '')
+    .split(',')
+    .map((hop) => normalizeAddress(hop.trim()))
+    .filter(Boolean);
+
+  while (TRUSTED_PROXIES.has(address) && hops.length > 0) {
+    address = hops.pop()!;
+  }
+  return address || 'unknown';
+}
+
+// Client address as resolved by the HTTP server
+export function getClientIp(c: Context): string {
+  return c.req.header(CLIENT_IP_HEADER) || 'unknown';
+}
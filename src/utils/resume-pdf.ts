@@ -0,0 +1,254 @@
+import PDFDocument from 'pdfkit';
+import type { VisiblePortfolio } from '../services/portfolio.js';
+
+export const RESUME_TEMPLATES = ['classic', 'modern'] as const;
+export type ResumeTemplate = (typeof RESUME_TEMPLATES)[number];
+
+// Bump when the layout changes so cached PDFs are regenerated
+export const RESUME_RENDERER_VERSION = 1;
+
+interface ResumeTheme {
+  font: string;
+  boldFont: string;
+  accent: string;
+  text: string;
+  muted: string;
+  header: 'centered' | 'band';
+  skills: 'inline' | 'bars';
+}
+
+const THEMES: Record<ResumeTemplate, ResumeTheme> = {
+  classic: {
+    font: 'Times-Roman',
+    boldFont: 'Times-Bold',
+    accent: '#1F2937',
+    text: '#111827',
+    muted: '#4B5563',
+    header: 'centered',
+    skills: 'inline',
+  },
+  modern: {
+    font: 'Helvetica',
+    boldFont: 'Helvetica-Bold',
+    accent: '#2563EB',
+    text: '#111827',
+    muted: '#6B7280',
+    header: 'band',
+    skills: 'bars',
+  },
+};
+
+// The built-in PDF fonts only cover Latin-1; point these at TTF files to render other scripts
+const CUSTOM_FONT = process.env.RESUME_FONT_PATH;
+const CUSTOM_BOLD_FONT = process.env.RESUME_BOLD_FONT_PATH || CUSTOM_FONT;
+
+const MARGIN = 50;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Bios and descriptions are markdown; the PDF shows them as plain text
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '• ')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/(\*|_)(.*?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function formatMonth(value: string | Date | null): string {
+  if (!value) {
+    return '';
+  }
+  const date = typeof value === 'string' ? new Date(`${value.slice(0, 10)}T00:00:00Z`) : value;
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+}
+
+function formatRange(start: string | Date | null, end: string | Date | null): string {
+  return `${formatMonth(start)} – ${end ? formatMonth(end) : 'Present'}`;
+}
+
+function displayUrl(url: string): string {
+  return url.replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '');
+}
+
+// Lay out a portfolio as an A4 resume
+export function renderResumePdf(portfolio: VisiblePortfolio, template: ResumeTemplate): Promise<Buffer> {
+  const theme = THEMES[template];
+  const { profile } = portfolio;
+  const fullName = `${profile.name} ${profile.lastname}`;
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    info: { Title: `${fullName} – Resume`, Author: fullName },
+  });
+
+  let font = theme.font;
+  let boldFont = theme.boldFont;
+  if (CUSTOM_FONT && CUSTOM_BOLD_FONT) {
+    doc.registerFont('resume-regular', CUSTOM_FONT);
+    doc.registerFont('resume-bold', CUSTOM_BOLD_FONT);
+    font = 'resume-regular';
+    boldFont = 'resume-bold';
+  }
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const contentWidth = doc.page.width - MARGIN * 2;
+
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > doc.page.height - MARGIN) {
+      doc.addPage();
+    }
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(60);
+    doc.moveDown(0.8);
+    doc.font(boldFont).fontSize(13).fillColor(theme.accent).text(title.toUpperCase(), MARGIN, doc.y, { characterSpacing: 1 });
+    const lineY = doc.y + 2;
+    doc.moveTo(MARGIN, lineY).lineTo(MARGIN + contentWidth, lineY).lineWidth(0.75).strokeColor(theme.accent).stroke();
+    doc.moveDown(0.5);
+  };
+
+  const entry = (title: string, subtitle: string | null, dates: string, description: string | null) => {
+    ensureSpace(40);
+    const top = doc.y;
+    doc.font(font).fontSize(9.5).fillColor(theme.muted).text(dates, MARGIN, top, { width: contentWidth, align: 'right' });
+    doc.font(boldFont).fontSize(11).fillColor(theme.text).text(title, MARGIN, top, { width: contentWidth - 120 });
+    if (subtitle) {
+      doc.font(font).fontSize(10).fillColor(theme.muted).text(subtitle, { width: contentWidth - 120 });
+    }
+    if (description) {
+      doc.moveDown(0.2);
+      doc.font(font).fontSize(10).fillColor(theme.text).text(markdownToText(description), { width: contentWidth });
+    }
+    doc.moveDown(0.6);
+  };
+
+  // Header: name, headline and contact line
+  const contacts = [
+    profile.location,
+    profile.email,
+    profile.websiteUrl && displayUrl(profile.websiteUrl),
+    profile.githubUrl && displayUrl(profile.githubUrl),
+    profile.linkedinUrl && displayUrl(profile.linkedinUrl),
+    profile.xUrl && displayUrl(profile.xUrl),
+  ].filter(Boolean).join('  |  ');
+
+  if (theme.header === 'band') {
+    doc.rect(0, 0, doc.page.width, 110).fill(theme.accent);
+    doc.font(boldFont).fontSize(24).fillColor('#FFFFFF').text(fullName, MARGIN, 30, { width: contentWidth });
+    if (profile.headline) {
+      doc.font(font).fontSize(12).fillColor('#FFFFFF').text(profile.headline, { width: contentWidth });
+    }
+    doc.font(font).fontSize(9).fillColor('#FFFFFF').text(contacts, { width: contentWidth });
+    doc.y = 125;
+  } else {
+    doc.font(boldFont).fontSize(24).fillColor(theme.text).text(fullName, { align: 'center' });
+    if (profile.headline) {
+      doc.font(font).fontSize(12).fillColor(theme.muted).text(profile.headline, { align: 'center' });
+    }
+    doc.moveDown(0.3);
+    doc.font(font).fontSize(9.5).fillColor(theme.muted).text(contacts, { align: 'center' });
+  }
+
+  if (profile.openToWork) {
+    doc.moveDown(0.3);
+    doc.font(boldFont).fontSize(10).fillColor(theme.accent).text('Open to work', MARGIN, doc.y, {
+      width: contentWidth,
+      align: theme.header === 'centered' ? 'center' : 'left',
+    });
+  }
+
+  if (profile.bio) {
+    heading('About');
+    doc.font(font).fontSize(10).fillColor(theme.text).text(markdownToText(profile.bio), { width: contentWidth });
+  }
+
+  if (profile.experience.length > 0) {
+    heading('Experience');
+    for (const job of profile.experience) {
+      const subtitle = [job.company, job.employmentType, job.location].filter(Boolean).join(' · ');
+      entry(job.title, subtitle, formatRange(job.startDate, job.endDate), job.description);
+    }
+  }
+
+  if (profile.education.length > 0) {
+    heading('Education');
+    for (const school of profile.education) {
+      const subtitle = [school.degree, school.fieldOfStudy].filter(Boolean).join(', ') || null;
+      entry(school.school, subtitle, formatRange(school.startDate, school.endDate), school.description);
+    }
+  }
+
+  const skillGroups = Object.entries(portfolio.skills || {});
+  if (skillGroups.length > 0) {
+    heading('Skills');
+    for (const [category, categorySkills] of skillGroups) {
+      if (theme.skills === 'inline') {
+        ensureSpace(30);
+        doc.font(boldFont).fontSize(10).fillColor(theme.text).text(`${category}: `, MARGIN, doc.y, { continued: true });
+        doc.font(font).text(categorySkills.map((skill) => `${skill.name} (${skill.level}/5)`).join(', '), { width: contentWidth });
+        doc.moveDown(0.3);
+        continue;
+      }
+
+      ensureSpace(30);
+      doc.font(boldFont).fontSize(10).fillColor(theme.text).text(category, MARGIN, doc.y);
+      doc.moveDown(0.2);
+      for (const skill of categorySkills) {
+        ensureSpace(16);
+        const rowY = doc.y;
+        doc.font(font).fontSize(9.5).fillColor(theme.text).text(skill.name, MARGIN + 10, rowY, { width: 170 });
+        for (let level = 1; level <= 5; level++) {
+          doc
+            .rect(MARGIN + 190 + (level - 1) * 22, rowY + 2, 18, 6)
+            .fill(level <= skill.level ? theme.accent : '#E5E7EB');
+        }
+        doc.y = Math.max(doc.y, rowY + 13);
+      }
+      doc.moveDown(0.4);
+    }
+  }
+
+  if (portfolio.projects && portfolio.projects.length > 0) {
+    heading('Projects');
+    for (const project of portfolio.projects) {
+      const links = [project.demoUrl, project.githubUrl].filter((url): url is string => Boolean(url)).map(displayUrl);
+      const subtitle = [project.technologies.join(', '), ...links].filter(Boolean).join('  |  ') || null;
+      entry(project.title, subtitle, formatMonth(project.createdAt), project.description);
+    }
+  }
+
+  if (portfolio.roadmaps && portfolio.roadmaps.length > 0) {
+    heading('Completed learning paths');
+    for (const roadmap of portfolio.roadmaps) {
+      const finalProject = roadmap.finalProject
+        ? `Final project: ${roadmap.finalProject.title} (${displayUrl(roadmap.finalProject.demoUrl)})`
+        : null;
+      entry(roadmap.name, finalProject, formatMonth(roadmap.completedAt), null);
+    }
+  }
+
+  if (portfolio.certificates && portfolio.certificates.length > 0) {
+    heading('Certificates');
+    for (const certificate of portfolio.certificates) {
+      const subtitle = [certificate.source, certificate.roadmapName].filter(Boolean).join(' · ') || null;
+      entry(certificate.name, subtitle, formatMonth(certificate.issueDate), null);
+    }
+  }
+
+  doc.end();
+  return done;
+}
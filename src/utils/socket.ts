@@ -1,13 +1,17 @@
 import { Server as HttpServer } from 'http';
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, type Socket } from 'socket.io';
 import { redis, pubClient, subClient } from './redis.js';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import { conversations, messages } from '../db/schema.js';
-import { eq } from 'drizzle-orm';
+import { and, eq, or } from 'drizzle-orm';
+import { resolveAuthUser } from '../middleware/auth.js';
+import { sessionEvents } from '../services/sessions.js';
 
-interface AuthenticatedSocket extends SocketIOServer {
+interface AuthenticatedSocket extends Socket {
   userId?: number;
+  sessionId?: string;
+  emailVerified?: boolean;
   userInfo?: {
     id: number;
     name: string;
@@ -25,6 +29,22 @@ const connectionString = process.env.DATABASE_URL!;
 const sql = postgres(connectionString);
 const db = drizzle(sql);
 
+// Find a conversation the user takes part in
+async function findParticipantConversation(conversationId: number, userId: number) {
+  const conversation = await db
+    .select()
+    .from(conversations)
+    .where(
+      and(
+        eq(conversations.id, conversationId),
+        or(eq(conversations.user1Id, userId), eq(conversations.user2Id, userId))
+      )
+    )
+    .limit(1);
+
+  return conversation.length > 0 ? conversation[0] : null;
+}
+
 export function initializeSocket(httpServer: HttpServer): SocketIOServer {
   io = new SocketIOServer(httpServer, {
     cors: {
@@ -44,61 +64,100 @@ export function initializeSocket(httpServer: HttpServer): SocketIOServer {
     pingInterval: 25000
   });
 
-  io.on('connection', async (socket: any) => {
+  // Authentication - the access token is sent in the handshake: io(url, { auth: { token } })
+  io.use(async (socket: AuthenticatedSocket, next) => {
+    try {
+      const token = socket.handshake.auth?.token;
+      if (!token || typeof token !== 'string') {
+        return next(new Error('Authentication token required'));
+      }
+
+      const result = await resolveAuthUser(token);
+      if ('error' in result) {
+        return next(new Error(result.error));
+      }
+
+      // Chat is interactive; personal access tokens are for the REST API only
+      const { user } = result;
+      if (!user.sessionId) {
+        return next(new Error('Personal access tokens cannot be used for chat'));
+      }
+
+      // Support tokens are audited per HTTP request, which a live socket would bypass
+      if (user.impersonatorId) {
+        return next(new Error('Chat is not available while impersonating'));
+      }
+
+      // Identity comes from the verified token and the database, never from the client
+      socket.userId = user.id;
+      socket.sessionId = user.sessionId;
+      socket.emailVerified = user.emailVerified;
+      socket.userInfo = { id: user.id, name: user.name, lastname: user.lastname };
+
+      next();
+    } catch (error) {
+      console.error('Socket authentication error:', error);
+      next(new Error('Authentication failed'));
+    }
+  });
+
+  io.on('connection', async (socket: AuthenticatedSocket) => {
     console.log('👤 User connected:', socket.id);
 
-    // Authentication - user must send auth data when connecting
-    socket.on('authenticate', async (data: { userId: number; userInfo: any }) => {
-      try {
-        socket.userId = data.userId;
-        socket.userInfo = data.userInfo;
-        
-        // Store in online users
-        onlineUsers.set(data.userId, socket.id);
-        
-        // Cache user session in Redis
-        if (redis.isReady) {
-          await redis.setEx(`user:${data.userId}:session`, 3600, JSON.stringify({
-            socketId: socket.id,
-            lastSeen: Date.now(),
-            status: 'online',
-            userInfo: data.userInfo
-          }));
-        }
+    const userId = socket.userId!;
+    const userInfo = socket.userInfo!;
 
-        // Join user to their personal room
-        socket.join(`user:${data.userId}`);
-        
-        // Notify user is online
-        socket.broadcast.emit('user-online', { 
-          userId: data.userId, 
-          userInfo: data.userInfo 
-        });
+    try {
+      // Store in online users
+      onlineUsers.set(userId, socket.id);
 
-        console.log(`✅ User authenticated: ${data.userInfo.name} (${data.userId})`);
-        
-        socket.emit('authenticated', { success: true });
-      } catch (error) {
-        console.error('Authentication error:', error);
-        socket.emit('auth-error', { message: 'Authentication failed' });
+      // Cache user session in Redis
+      if (redis.isReady) {
+        await redis.setEx(`user:${userId}:session`, 3600, JSON.stringify({
+          socketId: socket.id,
+          lastSeen: Date.now(),
+          status: 'online',
+          userInfo
+        }));
       }
+
+      // Join user to their personal room
+      socket.join(`user:${userId}`);
+
+      // Notify user is online
+      socket.broadcast.emit('user-online', { userId, userInfo });
+
+      console.log(`✅ User authenticated: ${userInfo.name} (${userId})`);
+    } catch (error) {
+      console.error('Socket connection setup error:', error);
+    }
+
+    // Kept for older clients; identity is already established by the handshake
+    socket.on('authenticate', () => {
+      socket.emit('authenticated', { success: true, userInfo });
     });
 
-    // Join conversation room
-    socket.on('join-conversation', (conversationId: number) => {
-      if (!socket.userId) {
-        socket.emit('error', { message: 'Not authenticated' });
-        return;
+    // Join conversation room (participants only)
+    socket.on('join-conversation', async (conversationId: number) => {
+      try {
+        const conversation = await findParticipantConversation(Number(conversationId), userId);
+        if (!conversation) {
+          socket.emit('error', { message: 'Conversation not found or access denied' });
+          return;
+        }
+
+        socket.join(`conversation:${conversation.id}`);
+        console.log(`👥 User ${userId} joined conversation ${conversation.id}`);
+      } catch (error) {
+        console.error('Join conversation error:', error);
+        socket.emit('error', { message: 'Failed to join conversation' });
       }
-      
-      socket.join(`conversation:${conversationId}`);
-      console.log(`👥 User ${socket.userId} joined conversation ${conversationId}`);
     });
 
     // Leave conversation room  
     socket.on('leave-conversation', (conversationId: number) => {
       socket.leave(`conversation:${conversationId}`);
-      console.log(`👋 User ${socket.userId} left conversation ${conversationId}`);
+      console.log(`👋 User ${userId} left conversation ${conversationId}`);
     });
 
     // Send message
@@ -108,17 +167,27 @@ export function initializeSocket(httpServer: HttpServer): SocketIOServer {
       receiverId: number;
     }) => {
       try {
-        if (!socket.userId || !socket.userInfo) {
-          socket.emit('error', { message: 'Not authenticated' });
+        // Same rule as POST /api/chat/messages
+        if (!socket.emailVerified) {
+          socket.emit('error', { message: 'Please verify your email address first' });
+          return;
+        }
+
+        const conversation = await findParticipantConversation(Number(data.conversationId), userId);
+        if (!conversation) {
+          socket.emit('error', { message: 'Conversation not found or access denied' });
           return;
         }
 
+        // The receiver is the other participant, whatever the client claims
+        const receiverId = conversation.user1Id === userId ? conversation.user2Id : conversation.user1Id;
+
         // Save message to database first
         const savedMessage = await db
           .insert(messages)
           .values({
-            conversationId: data.conversationId,
-            senderId: socket.userId,
+            conversationId: conversation.id,
+            senderId: userId,
             content: data.content,
             messageType: 'text',
             isRead: false,
@@ -129,14 +198,14 @@ export function initializeSocket(httpServer: HttpServer): SocketIOServer {
         await db
           .update(conversations)
           .set({ lastMessageAt: new Date() })
-          .where(eq(conversations.id, data.conversationId));
+          .where(eq(conversations.id, conversation.id));
 
         // Create message object for socket emission
         const message = {
           id: savedMessage[0].id,
-          conversationId: data.conversationId,
-          senderId: socket.userId,
-          senderInfo: socket.userInfo,
+          conversationId: conversation.id,
+          senderId: userId,
+          senderInfo: userInfo,
           content: data.content,
           timestamp: savedMessage[0].createdAt,
           createdAt: savedMessage[0].createdAt,
@@ -144,16 +213,16 @@ export function initializeSocket(httpServer: HttpServer): SocketIOServer {
         };
 
         // Emit to conversation room
-        io.to(`conversation:${data.conversationId}`).emit('new-message', message);
+        io.to(`conversation:${conversation.id}`).emit('new-message', message);
         
         // Send notification to receiver (whether online or offline)
         const receiverSocket = Array.from(io.sockets.sockets.values())
-          .find(s => (s as any).userId === data.receiverId);
+          .find(s => (s as AuthenticatedSocket).userId === receiverId);
         
         if (receiverSocket) {
           // If receiver is online but not in the conversation room, send notification
-          if (!receiverSocket.rooms.has(`conversation:${data.conversationId}`)) {
-            io.to(`user:${data.receiverId}`).emit('message-notification', {
+          if (!receiverSocket.rooms.has(`conversation:${conversation.id}`)) {
+            io.to(`user:${receiverId}`).emit('message-notification', {
               ...message,
               preview: data.content.substring(0, 50) + (data.content.length > 50 ? '...' : '')
             });
@@ -162,7 +231,7 @@ export function initializeSocket(httpServer: HttpServer): SocketIOServer {
         } else {
           // Receiver is offline - message is already saved in database
           // They will see it when they come back online and load messages
-          console.log(`📱 Message sent to offline user ${data.receiverId}`);
+          console.log(`📱 Message sent to offline user ${receiverId}`);
         }
 
         // NOTE: Redis pub/sub disabled to prevent duplicate messages
@@ -171,7 +240,7 @@ export function initializeSocket(httpServer: HttpServer): SocketIOServer {
         //   await pubClient.publish('chat:message', JSON.stringify(message));
         // }
 
-        console.log(`💬 Message sent in conversation ${data.conversationId} by user ${socket.userId}`);
+        console.log(`💬 Message sent in conversation ${conversation.id} by user ${userId}`);
       } catch (error) {
         console.error('Send message error:', error);
         socket.emit('error', { message: 'Failed to send message' });
@@ -180,11 +249,12 @@ export function initializeSocket(httpServer: HttpServer): SocketIOServer {
 
     // Typing indicator
     socket.on('typing', (data: { conversationId: number; isTyping: boolean }) => {
-      if (!socket.userId || !socket.userInfo) return;
+      // Only members of the room may signal into it
+      if (!socket.rooms.has(`conversation:${data.conversationId}`)) return;
       
       socket.to(`conversation:${data.conversationId}`).emit('user-typing', {
-        userId: socket.userId,
-        userInfo: socket.userInfo,
+        userId,
+        userInfo,
         isTyping: data.isTyping
       });
     });
@@ -192,12 +262,12 @@ export function initializeSocket(httpServer: HttpServer): SocketIOServer {
     // Mark messages as read
     socket.on('mark-read', async (data: { conversationId: number; messageIds: number[] }) => {
       try {
-        if (!socket.userId) return;
+        if (!socket.rooms.has(`conversation:${data.conversationId}`)) return;
         
         // Emit to conversation that messages were read
         socket.to(`conversation:${data.conversationId}`).emit('messages-read', {
           conversationId: data.conversationId,
-          readByUserId: socket.userId,
+          readByUserId: userId,
           messageIds: data.messageIds
         });
       } catch (error) {
@@ -207,27 +277,33 @@ export function initializeSocket(httpServer: HttpServer): SocketIOServer {
 
     // Handle disconnect
     socket.on('disconnect', async () => {
-      if (socket.userId) {
-        // Remove from online users
-        onlineUsers.delete(socket.userId);
-        
-        // Update Redis session
-        if (redis.isReady) {
-          await redis.del(`user:${socket.userId}:session`);
-        }
-        
-        // Notify user is offline
-        socket.broadcast.emit('user-offline', { 
-          userId: socket.userId,
-          userInfo: socket.userInfo 
-        });
-        
-        console.log(`👋 User ${socket.userId} disconnected`);
+      // Remove from online users
+      onlineUsers.delete(userId);
+
+      // Update Redis session
+      if (redis.isReady) {
+        await redis.del(`user:${userId}:session`);
       }
+
+      // Notify user is offline
+      socket.broadcast.emit('user-offline', { userId, userInfo });
+
+      console.log(`👋 User ${userId} disconnected`);
       console.log('🔌 Socket disconnected:', socket.id);
     });
   });
 
+  // Close live connections of a session as soon as it is revoked (logout, session removal, deactivation)
+  sessionEvents.on('revoked', (sessionId: string, userId: number) => {
+    for (const socket of io.sockets.sockets.values()) {
+      if ((socket as AuthenticatedSocket).sessionId === sessionId) {
+        socket.emit('session-revoked', { sessionId });
+        socket.disconnect(true);
+        console.log(`🔒 Disconnected socket ${socket.id} of user ${userId} (session revoked)`);
+      }
+    }
+  });
+
   // NOTE: Redis pub/sub disabled to prevent duplicate messages
   // Uncomment when scaling to multiple server instances
   // if (subClient.isReady) {
@@ -0,0 +1,18 @@
+// projects.technologies (and final project technologies) hold a JSON array of strings as text
+
+export function isTechnologyList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((technology) => typeof technology === 'string');
+}
+
+// Stored values written before validation may be malformed; anything that is not a list of strings counts as none
+export function parseTechnologies(technologies: string | null): string[] {
+  if (!technologies) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(technologies);
+    return isTechnologyList(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,39 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTotp, generateTotpSecret, getTimeStep, verifyTotp } from './totp.js';
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const NOW = 1111111109 * 1000;
+
+test('generateTotp matches the RFC 6238 SHA-1 test vectors', () => {
+  assert.equal(generateTotp(RFC_SECRET, 59 * 1000), '287082');
+  assert.equal(generateTotp(RFC_SECRET, 1111111109 * 1000), '081804');
+  assert.equal(generateTotp(RFC_SECRET, 1234567890 * 1000), '005924');
+});
+
+test('verifyTotp returns the matched time step', () => {
+  const secret = generateTotpSecret();
+  assert.equal(verifyTotp(secret, generateTotp(secret)), getTimeStep());
+});
+
+test('verifyTotp allows one step of clock drift but nothing older or newer', (t) => {
+  mock.timers.enable({ apis: ['Date'], now: NOW });
+  t.after(() => mock.timers.reset());
+
+  const step = getTimeStep(NOW);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, NOW - 30 * 1000)), step - 1);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, NOW + 30 * 1000)), step + 1);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, NOW - 90 * 1000)), null);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, NOW + 90 * 1000)), null);
+});
+
+test('verifyTotp rejects malformed codes and tolerates spaces', () => {
+  const secret = generateTotpSecret();
+  const code = generateTotp(secret);
+
+  assert.equal(verifyTotp(secret, '12345'), null);
+  assert.equal(verifyTotp(secret, 'abcdef'), null);
+  assert.equal(verifyTotp(secret, `${code}0`), null);
+  assert.notEqual(verifyTotp(secret, `${code.slice(0, 3)} ${code.slice(3)}`), null);
+});